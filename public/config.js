@@ -9,6 +9,57 @@ window.APP_CONFIG = {
   // Server URL - Update this based on your deployment
   SERVER_URL: 'http://127.0.0.1:8000',
   
+  // Live market data transport: 'sse', 'websocket' or 'mock' (offline simulator, no server needed)
+  TRANSPORT: 'sse',
+
+  // Symbol shown on first load (the last symbol picked in the header is remembered)
+  SYMBOL: 'BTC/USDT',
+
+  // Staleness policy (data age in ms); per-scenario overrides under `scenarios`
+  STALENESS: {
+    warn_ms: 100,
+    degrade_ms: 200,
+    halt_ms: 300,
+    consecutive_samples: 1,
+    scenarios: {}
+  },
+
+  // Offline simulator used when TRANSPORT is 'mock'
+  MOCK: {
+    scenario: 'stable-mode'
+  },
+
+  // Keep incidents, logs and performance samples in IndexedDB across reloads (opt-in)
+  PERSISTENCE: {
+    enabled: false,
+    retention: 500
+  },
+
+  // Desktop notification / alarm sound tuning (both are switched on per browser from the header)
+  ALERTS: {
+    min_interval_ms: 30000,
+    volume: 0.3
+  },
+
+  // Webhooks incidents are exported to; format is 'json', 'slack' or 'pagerduty', auto exports new incidents
+  // e.g. { name: 'ops-slack', url: 'https://hooks.slack.com/services/...', format: 'slack', auto: true, no_cors: true }
+  INCIDENT_SINKS: [],
+
+  // Context sent with "Resolve with Trackdown"; set api_url to POST it and get a ticket id instead of packing it into the URL
+  TRACKDOWN: {
+    log_count: 50,
+    metrics_window_ms: 120000
+  },
+
+  // Reconnect after the staleness kill switch once the publisher's data age stays healthy for healthy_for_ms;
+  // automatic recovery stops after max_trips halts within trip_window_ms (Resume still works)
+  RECOVERY: {
+    auto: false,
+    healthy_for_ms: 10000,
+    max_trips: 3,
+    trip_window_ms: 600000
+  },
+
   // Other runtime configurations can be added here
   ENVIRONMENT: 'development',
   
@@ -1,20 +1,61 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-import { Activity, AlertTriangle, TrendingUp, Users, Database, Zap, RefreshCw, Play, Square } from 'lucide-react'
-import { useSSE, SSESingleton } from '@/hooks/useSSESingleton'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import Link from 'next/link'
+import { Activity, AlertTriangle, TrendingUp, Users, Database, Zap, RefreshCw, Play, Square, FileWarning, Server, Gauge, ExternalLink } from 'lucide-react'
+import { useMarketData } from '@/hooks/useMarketData'
+import { useSessionPersistence } from '@/hooks/useSessionPersistence'
+import { useSessionRecording } from '@/hooks/useSessionRecording'
+import { useScenarioProfiles } from '@/hooks/useScenarioProfiles'
+import { useInstruments } from '@/hooks/useInstruments'
 import { useDashboardState } from '@/hooks/useDashboardState'
+import { useDashboardLayout } from '@/hooks/useDashboardLayout'
+import { useAlerts } from '@/hooks/useAlerts'
+import { useIncidentSinks } from '@/hooks/useIncidentSinks'
+import { useTrackdownHandoff } from '@/hooks/useTrackdownHandoff'
+import { useStalenessRecovery } from '@/hooks/useStalenessRecovery'
+import { useTransportDiagnostics } from '@/hooks/useTransportDiagnostics'
+import { useLevelChanges } from '@/hooks/useLevelChanges'
 import { formatUTCTime } from '@/utils/datetime'
 import EventsRateChart from '@/components/EventsRateChart'
+import DepthChart from '@/components/DepthChart'
+import PriceHistoryChart from '@/components/PriceHistoryChart'
+import DashboardGrid from '@/components/DashboardGrid'
+import LayoutControls from '@/components/LayoutControls'
+import AlertControls from '@/components/AlertControls'
+import PerformanceChart from '@/components/PerformanceChart'
+import MetricsPanel from '@/components/MetricsPanel'
+import LogsPanel from '@/components/LogsPanel'
+import OrderbookView from '@/components/OrderbookView'
+import OrderbookDisplayControls from '@/components/OrderbookDisplayControls'
+import OrderbookSide from '@/components/OrderbookSide'
 import WelcomeModal from '@/components/WelcomeModal'
-import { buildApiUrl } from '@/config/api'
+import IncidentsPanel from '@/components/IncidentsPanel'
+import ConnectionDiagnosticsPanel from '@/components/ConnectionDiagnosticsPanel'
+import SessionHistoryBar from '@/components/SessionHistoryBar'
+import RecordingControls from '@/components/RecordingControls'
+import ScenarioSelector from '@/components/ScenarioSelector'
+import { apiClient, ApiError, describeApiError } from '@/lib/apiClient'
+import { STALENESS_LEVEL_STYLES } from '@/lib/stalenessPolicy'
+import { formatInstrumentPrice, formatInstrumentSize, getGroupingStep } from '@/lib/instruments'
+import { aggregateLevels, DEFAULT_VISIBLE_DEPTH } from '@/lib/orderbook'
+import { summarizeThroughput } from '@/lib/throughput'
+import { MockTransport } from '@/lib/transport'
 
 export default function TradingDashboard() {
   const dashboardState = useDashboardState()
-  const sseHook = useSSE(dashboardState)
-  const { isConnected } = sseHook
-  const { state } = dashboardState
-  const alertsScrollRef = useRef<HTMLDivElement>(null)
+  const { isConnected, transport } = useMarketData(dashboardState)
+  const sessionPersistence = useSessionPersistence(dashboardState)
+  const sessionRecording = useSessionRecording(dashboardState)
+  const scenarioProfiles = useScenarioProfiles(transport)
+  const isReplaying = transport.kind === 'replay'
+  const { state, activeOrderbook: orderbook } = dashboardState
+  const { instruments, symbol, instrument, selectSymbol } = useInstruments(transport, dashboardState)
+  const dashboardLayout = useDashboardLayout()
+  const alerts = useAlerts(dashboardState)
+  const { raiseAlert } = alerts
+  const incidentSinks = useIncidentSinks(dashboardState)
+  const { handoff: trackdownHandoff, resolveWithTrackdown, clearHandoff: clearTrackdownHandoff } = useTrackdownHandoff(dashboardState)
   const [lastSequenceId, setLastSequenceId] = useState(0)
   const [isUpdating, setIsUpdating] = useState(false)
   const [, setStalenessAlertCount] = useState(0)
@@ -28,23 +69,34 @@ export default function TradingDashboard() {
   const [isDataProcessing, setIsDataProcessing] = useState(false)
   const [isPlayButtonLoading, setIsPlayButtonLoading] = useState(false)
   const [showWelcomeModal, setShowWelcomeModal] = useState(true)
+  const [apiError, setApiError] = useState<string | null>(null)
+  // Price grouping as a multiple of the instrument's tick size, so it carries across symbols
+  const [groupingMultiplier, setGroupingMultiplier] = useState(1)
+  const [visibleDepth, setVisibleDepth] = useState(DEFAULT_VISIBLE_DEPTH)
+  const [showDeltas, setShowDeltas] = useState(false)
+
+  // Reconnect after the kill switch keeping history, unlike Stop/Play which starts over
+  const { resetStaleness } = dashboardState
+  const resumeAfterStaleness = useCallback(() => {
+    resetStaleness()
+    setIsDisconnectedDueToStaleness(false)
+    setStalenessDisconnectInfo(null)
+    clearTrackdownHandoff()
+    setStalenessAlertCount(0)
+    transport.connect()
+  }, [resetStaleness, clearTrackdownHandoff, transport])
+  const recovery = useStalenessRecovery(dashboardState, transport, isDisconnectedDueToStaleness, resumeAfterStaleness)
+  const transportDiagnostics = useTransportDiagnostics(transport)
 
   const handleCloseWelcomeModal = () => {
     setShowWelcomeModal(false)
   }
 
-  useEffect(() => {
-    // Auto-scroll to the top when new incidents are added
-    if (alertsScrollRef.current && state.incidents.length > 0) {
-      alertsScrollRef.current.scrollTop = 0
-    }
-  }, [state.incidents])
-
   // Track orderbook updates for subtle animations
   useEffect(() => {
-    if (state.orderbook_data.sequence_id !== lastSequenceId && state.orderbook_data.sequence_id > 0) {
+    if (orderbook.sequence_id !== lastSequenceId && orderbook.sequence_id > 0) {
       setIsUpdating(true)
-      setLastSequenceId(state.orderbook_data.sequence_id)
+      setLastSequenceId(orderbook.sequence_id)
 
       // Reset animation after a short delay
       const timer = setTimeout(() => {
@@ -53,9 +105,9 @@ export default function TradingDashboard() {
 
       return () => clearTimeout(timer)
     }
-  }, [state.orderbook_data.sequence_id, lastSequenceId])
+  }, [orderbook.sequence_id, lastSequenceId])
 
-  // Immediately disconnect on staleness detection
+  // Disconnect once the staleness policy reaches its halt level
   useEffect(() => {
     // Skip staleness detection if we're in the middle of a reset
     if (isResetting) {
@@ -63,105 +115,135 @@ export default function TradingDashboard() {
       return
     }
 
-    const isCurrentlyStale = state.orderbook_data.is_stale && (state.orderbook_data.data_age_ms ?? 0) > 300
+    const isCurrentlyStale = state.staleness.level === 'halt'
 
     if (isCurrentlyStale && !isDisconnectedDueToStaleness) {
-      console.log(`🚨 Staleness detected - Data age: ${state.orderbook_data.data_age_ms}ms - Immediately disconnecting`)
+      console.log(`🚨 Staleness halt - Data age: ${orderbook.data_age_ms}ms - Disconnecting`)
 
-      // Immediately disconnect without warning
       setStalenessDisconnectInfo({
-        dataAge: state.orderbook_data.data_age_ms ?? 0,
+        dataAge: orderbook.data_age_ms ?? 0,
         timestamp: new Date().toISOString()
       })
       setIsDisconnectedDueToStaleness(true)
       setStalenessAlertCount(1)
+      raiseAlert({
+        severity: 'CRITICAL',
+        title: 'Trading stopped',
+        body: `Staleness kill switch fired: orderbook data ${orderbook.data_age_ms ?? 0}ms old (${symbol})`,
+        key: 'staleness-halt'
+      })
 
-      // Force disconnect the SSE
-      const sseInstance = SSESingleton.getInstance()
-      sseInstance.disconnect()
+      // Force disconnect the live feed
+      transport.disconnect()
     }
-  }, [state.orderbook_data.is_stale, state.orderbook_data.data_age_ms, isDisconnectedDueToStaleness, isResetting])
-
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price)
-  }
+  }, [state.staleness.level, orderbook.data_age_ms, isDisconnectedDueToStaleness, isResetting, transport, raiseAlert, symbol])
 
-  const formatQuantity = (quantity: string) => {
-    return parseFloat(quantity).toFixed(4)
-  }
+  const formatPrice = (price: number) => formatInstrumentPrice(price, instrument)
 
-  const getDataFreshnessColor = (dataAge: number = 0, isStale: boolean = false) => {
-    if (isStale && dataAge > 1000) return 'text-red-500 bg-red-50'
-    if (isStale) return 'text-yellow-500 bg-yellow-50'
-    return 'text-blue-500 bg-blue-50'
-  }
+  const formatQuantity = (quantity: string) => formatInstrumentSize(quantity, instrument)
+
+  const priceUnit = instrument.currency ?? instrument.quote_asset
+
+  // Levels grouped into price buckets; the full lists are diffed so levels moving in and out of view don't flash
+  const { groupedBids, groupedAsks } = useMemo(() => {
+    const group = (levels: [string, string][], side: 'bids' | 'asks') => groupingMultiplier > 1
+      ? aggregateLevels(levels, side, getGroupingStep(instrument, groupingMultiplier), instrument.price_precision, instrument.size_precision)
+      : levels
+    return {
+      groupedBids: group(orderbook.bids, 'bids'),
+      groupedAsks: group(orderbook.asks, 'asks')
+    }
+  }, [orderbook.bids, orderbook.asks, instrument, groupingMultiplier])
+
+  const levelChanges = useLevelChanges(groupedBids, groupedAsks, `${symbol}:${groupingMultiplier}`)
+  const displayBids = groupedBids.slice(0, visibleDepth)
+  const displayAsks = groupedAsks.slice(0, visibleDepth)
+
+  const stalenessStyle = STALENESS_LEVEL_STYLES[state.staleness.level]
+
+  // Throughput percentiles over the rates sampled at each heartbeat (the window the performance chart shows)
+  const throughput = useMemo(
+    () => summarizeThroughput(state.performance_history.message_rate),
+    [state.performance_history.message_rate]
+  )
 
-  const getDataFreshnessText = (dataAge: number = 0, isStale: boolean = false) => {
-    if (isStale && dataAge > 1000) return 'STALE'
-    if (isStale) return 'SLOW'
-    return 'LIVE'
+  // Profile to (re)start in: stable-mode when the publisher offers it, else its first profile
+  const defaultProfile = scenarioProfiles.profiles.some(profile => profile.name === 'stable-mode')
+    ? 'stable-mode'
+    : scenarioProfiles.profiles[0]?.name ?? 'stable-mode'
+
+  // Start/stop the publisher; the mock and replays have no server to ask
+  const controlPublisher = async (action: 'start' | 'stop') => {
+    if (transport.kind !== 'sse' && transport.kind !== 'websocket') return true
+
+    try {
+      await (action === 'start' ? apiClient.startPublisher() : apiClient.stopPublisher())
+      setApiError(null)
+      return true
+    } catch (err) {
+      const description = describeApiError(err)
+      setApiError(description)
+      dashboardState.addLog('ERROR', `Failed to ${action} publisher: ${description}`)
+      return false
+    }
   }
 
   const handleProfileSwitch = async (profileName: string) => {
+    // Set user override to prevent server from immediately overriding the selection
+    dashboardState.setUserScenarioOverride(profileName)
+
+    if (transport instanceof MockTransport) {
+      transport.setScenario(profileName)
+      return
+    }
+
     try {
-      // Set user override to prevent server from immediately overriding the toggle
-      dashboardState.setUserScenarioOverride(profileName)
-      
-      await fetch(buildApiUrl(`/config/profile/${profileName}`), {
-        method: 'POST'
-      })
+      await apiClient.switchProfile(profileName)
+      setApiError(null)
     } catch (err) {
+      const description = describeApiError(err)
       console.error('Failed to switch profile:', err)
+      setApiError(description)
+      dashboardState.addLog('ERROR', `Failed to switch profile to ${profileName}: ${description}`)
     }
   }
 
   const handleResolveWithTrackdown = () => {
     if (!stalenessDisconnectInfo) return
 
-    const incidentDate = new Date(stalenessDisconnectInfo.timestamp);
-    const time = incidentDate.toISOString().split('T')[1].split('.')[0] + ' UTC';
-    const date_input = incidentDate.toISOString().split('T')[0];
-    const data_age = stalenessDisconnectInfo.dataAge.toFixed(2);
-
-    const message = `Error: Data staleness detected: orderbook aged ${data_age}ms on date ${date_input} at time ${time}`;
-
-    const params = new URLSearchParams({
-      time: time,
-      date_input: date_input,
-      message: message,
-      repository: process.env.NEXT_PUBLIC_REPOSITORY || 'abhimanyu891998/trackdownmvpserver26jun',
-      application: process.env.NEXT_PUBLIC_APPLICATION || 'marketdata-publisher',
-      data_age: `${data_age}ms`
+    void resolveWithTrackdown({
+      data_age_ms: stalenessDisconnectInfo.dataAge,
+      timestamp: stalenessDisconnectInfo.timestamp
     })
-
-    const trackdownUrl = `${process.env.NEXT_PUBLIC_TRACKDOWN_UI_URL}?${params.toString()}`
-
-    window.open(trackdownUrl, '_blank')
   }
 
   // Check processing status on component mount and periodically
   useEffect(() => {
+    const controller = new AbortController()
+
     const checkProcessingStatus = async () => {
+      if (transport instanceof MockTransport) {
+        setIsDataProcessing(transport.isConnected())
+        return
+      }
+
       try {
-        const response = await fetch(buildApiUrl('/status/publisher'))
-        if (response.ok) {
-          const data = await response.json()
-          setIsDataProcessing(data.publisher?.is_running ?? false)
-        }
+        const data = await apiClient.getPublisherStatus(controller.signal)
+        setIsDataProcessing(data.publisher?.is_running ?? false)
       } catch (err) {
+        if (err instanceof ApiError && err.kind === 'aborted') return
         console.error('Failed to check processing status:', err)
+        setApiError(describeApiError(err))
       }
     }
 
     checkProcessingStatus()
     const interval = setInterval(checkProcessingStatus, 5000) // Check every 5 seconds
-    return () => clearInterval(interval)
-  }, [])
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [transport])
 
   const handlePlayToggle = async () => {
     if (isPlayButtonLoading) return
@@ -172,16 +254,12 @@ export default function TradingDashboard() {
       if (isDataProcessing) {
         // Stop data processing
         console.log('🛑 Stopping data processing')
-        const response = await fetch(buildApiUrl('/stop'), {
-          method: 'POST'
-        })
-        if (response.ok) {
+        if (await controlPublisher('stop')) {
           dashboardState.addLog('INFO', 'Data processing stopped by user')
           setIsDataProcessing(false)
 
-          // Disconnect SSE
-          const sseInstance = SSESingleton.getInstance()
-          sseInstance.disconnect()
+          // Disconnect the live feed
+          transport.disconnect()
         } else {
           dashboardState.addLog('ERROR', 'Failed to stop data processing')
         }
@@ -192,10 +270,7 @@ export default function TradingDashboard() {
         // Set resetting flag to prevent staleness detection during start
         setIsResetting(true)
 
-        const response = await fetch(buildApiUrl('/start'), {
-          method: 'POST'
-        })
-        if (response.ok) {
+        if (await controlPublisher('start')) {
           dashboardState.addLog('INFO', 'Data processing started')
 
           // Reset dashboard state to initial values
@@ -204,6 +279,7 @@ export default function TradingDashboard() {
           // Reset UI states
           setIsDisconnectedDueToStaleness(false)
           setStalenessDisconnectInfo(null)
+          clearTrackdownHandoff()
           setStalenessAlertCount(0)
           setLastSequenceId(0)
           setIsUpdating(false)
@@ -211,16 +287,15 @@ export default function TradingDashboard() {
           // Reset chart
           setChartResetKey(prev => prev + 1)
 
-          // Connect SSE
-          const sseInstance = SSESingleton.getInstance()
-          sseInstance.disconnect() // Ensure clean state
+          // Connect the live feed
+          transport.disconnect() // Ensure clean state
 
-          // Switch to stable mode
-          await handleProfileSwitch('stable-mode')
+          // Start from the default profile
+          await handleProfileSwitch(defaultProfile)
 
           // Connect after a short delay
           setTimeout(() => {
-            sseInstance.connect()
+            transport.connect()
             setIsDataProcessing(true)
             // Clear resetting flag after connection
             setTimeout(() => {
@@ -243,32 +318,6 @@ export default function TradingDashboard() {
   }
 
 
-  const getModeDisplayInfo = (mode: string) => {
-    switch (mode) {
-      case 'stable-mode':
-        return {
-          emoji: '🟢',
-          name: 'Stable Mode',
-          color: 'text-blue-600 bg-blue-50',
-          description: 'Normal operation - Low latency'
-        }
-      case 'burst-mode':
-        return {
-          emoji: '🟡',
-          name: 'Burst Mode',
-          color: 'text-yellow-600 bg-yellow-50',
-          description: 'High frequency spikes'
-        }
-      default:
-        return {
-          emoji: '⚪',
-          name: 'Unknown',
-          color: 'text-blue-600 bg-blue-50',
-          description: 'Unknown mode'
-        }
-    }
-  }
-
   return (
     <div className="bg-white min-h-screen">
       {/* Header */}
@@ -282,15 +331,45 @@ export default function TradingDashboard() {
                 </div>
                 <div>
                   <h1 className="text-xl font-semibold text-black">Market Data Monitor</h1>
-                  <p className="text-sm text-gray-600">BTC/USDT</p>
+                  <select
+                    value={symbol}
+                    onChange={(e) => selectSymbol(e.target.value)}
+                    disabled={isReplaying}
+                    className="-ml-1 text-sm text-gray-600 bg-transparent rounded-md hover:text-black focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
+                    title={isReplaying ? 'Symbol is fixed by the recording' : 'Switch symbol'}
+                  >
+                    {!instruments.some(candidate => candidate.symbol === symbol) && (
+                      <option value={symbol}>{symbol}</option>
+                    )}
+                    {instruments.map(candidate => (
+                      <option key={candidate.symbol} value={candidate.symbol}>{candidate.symbol}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
             </div>
 
             <div className="flex items-center space-x-6">
+              <AlertControls
+                preferences={alerts.preferences}
+                permission={alerts.permission}
+                onToggleNotifications={alerts.toggleNotifications}
+                onToggleSound={alerts.toggleSound}
+              />
+
+              <Link href="/status" className="flex items-center space-x-1 text-sm text-gray-600 hover:text-black">
+                <Server className="w-4 h-4" />
+                <span>Server status</span>
+              </Link>
+
               {/* Connection Status */}
               <div className="flex items-center space-x-2">
-                {isConnected && isDataProcessing ? (
+                {isReplaying ? (
+                  <div className="flex items-center space-x-2">
+                    <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-blue-500 animate-pulse' : 'bg-gray-500'}`}></div>
+                    <span className="text-sm text-blue-600 font-medium">REPLAY</span>
+                  </div>
+                ) : isConnected && isDataProcessing ? (
                   <div className="flex items-center space-x-2">
                     <div className={`w-2 h-2 bg-emerald-500 rounded-full transition-all duration-300 ${isUpdating ? 'animate-subtle-pulse' : 'animate-pulse'
                       }`}></div>
@@ -311,6 +390,16 @@ export default function TradingDashboard() {
 
               {/* Control Buttons */}
               <div className="flex items-center space-x-2">
+                {apiError && (
+                  <button
+                    onClick={() => setApiError(null)}
+                    className="flex items-center space-x-1 max-w-xs px-2 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded-md"
+                    title={`${apiError} (click to dismiss)`}
+                  >
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{apiError}</span>
+                  </button>
+                )}
                 <button
                   onClick={handlePlayToggle}
                   disabled={isPlayButtonLoading}
@@ -331,79 +420,16 @@ export default function TradingDashboard() {
                 </button>
               </div>
 
-              {/* Market Mode Toggle */}
-              <div className="flex items-center space-x-3">
-                <span className="text-sm font-medium text-black">Mode:</span>
-                <div className="flex items-center space-x-3">
-                  {/* Toggle Switch */}
-                  <div className="relative">
-                    <button
-                      onClick={() => {
-                        if (isDataProcessing) {
-                          handleProfileSwitch(
-                            (state.metrics.current_scenario || "stable-mode") === "stable-mode"
-                              ? "burst-mode"
-                              : "stable-mode"
-                          )
-                        }
-                      }}
-                      disabled={!isDataProcessing}
-                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
-                        !isDataProcessing 
-                          ? 'bg-gray-300 cursor-not-allowed opacity-50' 
-                          : 'bg-gray-200 hover:bg-gray-300'
-                      }`}
-                      style={{
-                        backgroundColor: !isDataProcessing 
-                          ? "#D1D5DB" 
-                          : (state.metrics.current_scenario || "stable-mode") === "burst-mode"
-                          ? "#F59E0B"
-                          : "#10B981"
-                      }}
-                      title={!isDataProcessing ? "Toggle disabled when data processing is stopped" : "Switch between Stable and Burst modes"}
-                    >
-                      <span
-                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ease-in-out ${(state.metrics.current_scenario || "stable-mode") === "burst-mode"
-                            ? "translate-x-6"
-                            : "translate-x-1"
-                          }`}
-                      />
-                    </button>
-                  </div>
-
-                  {/* Mode Labels */}
-                  <div className="flex items-center space-x-2">
-                    <span className={`text-sm font-medium transition-colors duration-200 ${
-                        !isDataProcessing
-                        ? "text-gray-400"
-                        : (state.metrics.current_scenario || "stable-mode") === "stable-mode"
-                        ? "text-emerald-600"
-                        : "text-gray-500"
-                      }`}>
-                      Stable Mode
-                    </span>
-                    <span className="text-gray-400">|</span>
-                    <span className={`text-sm font-medium transition-colors duration-200 ${
-                        !isDataProcessing
-                        ? "text-gray-400"
-                        : (state.metrics.current_scenario || "stable-mode") === "burst-mode"
-                        ? "text-yellow-600"
-                        : "text-gray-500"
-                      }`}>
-                      Burst Mode
-                    </span>
-                  </div>
-
-                  {/* Description Badge */}
-                  <div className={`px-2 py-1 rounded-md text-xs font-medium ${
-                    !isDataProcessing 
-                      ? 'text-gray-500 bg-gray-100' 
-                      : getModeDisplayInfo(state.metrics.current_scenario || "stable-mode").color
-                  }`}>
-                    {!isDataProcessing ? 'Disabled' : getModeDisplayInfo(state.metrics.current_scenario || "stable-mode").description}
-                  </div>
-                </div>
-              </div>
+              {/* Scenario Profile Selector */}
+              <ScenarioSelector
+                profiles={scenarioProfiles.profiles}
+                currentScenario={state.metrics.current_scenario || defaultProfile}
+                disabled={!isDataProcessing}
+                isLoading={scenarioProfiles.isLoading}
+                error={scenarioProfiles.error}
+                onSelect={handleProfileSwitch}
+                onReload={scenarioProfiles.reload}
+              />
             </div>
           </div>
         </div>
@@ -422,16 +448,56 @@ export default function TradingDashboard() {
                   Disconnected: {formatUTCTime(new Date(stalenessDisconnectInfo.timestamp))}
                 </p>
                 <p className="text-xs text-red-500 mt-1">
-                  Connection terminated immediately upon staleness detection
+                  Connection terminated when the staleness policy reached its halt threshold
                 </p>
+                {recovery.phase === 'waiting' && (
+                  <p className="text-xs text-red-700 mt-1">
+                    Auto-recovery: {recovery.healthyForMs !== null
+                      ? `data age healthy for ${Math.floor(recovery.healthyForMs / 1000)}s of ${recovery.policy.healthy_for_ms / 1000}s`
+                      : `waiting for publisher data age ≤ ${recovery.healthyDataAgeMs}ms${recovery.dataAgeMs !== null ? ` (now ${recovery.dataAgeMs.toFixed(0)}ms)` : ''}`}
+                  </p>
+                )}
+                {recovery.phase === 'circuit_open' && (
+                  <p className="text-xs font-medium text-red-800 mt-1">
+                    Auto-recovery stopped after {recovery.trips} trips - resume manually once the publisher is healthy
+                  </p>
+                )}
+                {trackdownHandoff?.status === 'created' && (
+                  <a
+                    href={trackdownHandoff.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center space-x-1 text-sm font-medium text-red-800 underline mt-1"
+                  >
+                    <span>Trackdown ticket {trackdownHandoff.ticket_id}</span>
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+                {trackdownHandoff?.status === 'failed' && (
+                  <p className="text-xs text-red-700 mt-1">
+                    Trackdown ticket could not be created: {trackdownHandoff.error}
+                  </p>
+                )}
               </div>
             </div>
-            <button
-              onClick={handleResolveWithTrackdown}
-              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-            >
-              Resolve with Trackdown
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={recovery.resume}
+                className="flex items-center space-x-2 bg-white hover:bg-red-100 text-red-700 border border-red-300 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                title="Reconnect the live feed, keeping history"
+              >
+                <Play className="w-4 h-4" />
+                <span>Resume</span>
+              </button>
+              <button
+                onClick={handleResolveWithTrackdown}
+                disabled={trackdownHandoff?.status === 'submitting'}
+                className="flex items-center space-x-2 bg-red-600 hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                {trackdownHandoff?.status === 'submitting' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                <span>{trackdownHandoff?.status === 'submitting' ? 'Creating ticket...' : 'Resolve with Trackdown'}</span>
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -439,220 +505,305 @@ export default function TradingDashboard() {
 
       {/* Main Content */}
       <div className="p-4 flex flex-col">
-        {/* System Health Bar */}
-        <div className="bg-white border border-gray-200 rounded-xl shadow-sm mb-4 flex-shrink-0">
-          <div className="p-4 border-b border-gray-200">
-            <h3 className="text-lg font-semibold text-black">System Health</h3>
-          </div>
-          <div className="p-4">
-            <div className="grid grid-cols-6 gap-6">
-              <div className="flex items-center space-x-3">
-                <Database className="w-5 h-5 text-gray-600" />
-                <div>
-                  <div className="text-sm font-medium text-black">
-                    {state.metrics.memory_usage_mb.toFixed(1)} MB
-                  </div>
-                  <div className="text-xs text-gray-500">Memory</div>
+        {/* Session History */}
+        <SessionHistoryBar
+          enabled={sessionPersistence.enabled}
+          restoredSession={sessionPersistence.restoredSession}
+          onToggle={sessionPersistence.togglePersistence}
+          onClear={sessionPersistence.clearHistory}
+        />
+
+        {/* Recording / Replay */}
+        <RecordingControls
+          isRecording={sessionRecording.isRecording}
+          recordedCount={sessionRecording.recordedCount}
+          replayState={sessionRecording.replayState}
+          onStartRecording={sessionRecording.startRecording}
+          onStopRecording={sessionRecording.stopRecording}
+          onExport={sessionRecording.exportRecording}
+          onLoadReplay={sessionRecording.loadReplay}
+          onPlay={() => sessionRecording.replay?.play()}
+          onPause={() => sessionRecording.replay?.pause()}
+          onStep={() => sessionRecording.replay?.step()}
+          onSpeedChange={(speed) => sessionRecording.replay?.setSpeed(speed)}
+          onRestart={sessionRecording.restartReplay}
+          onExitReplay={sessionRecording.exitReplay}
+        />
+
+        {/* Layout presets and customization */}
+        <LayoutControls
+          layout={dashboardLayout.layout}
+          presets={dashboardLayout.presets}
+          isEditing={dashboardLayout.isEditing}
+          onEditingChange={dashboardLayout.setIsEditing}
+          onApplyPreset={dashboardLayout.applyPreset}
+          onSavePreset={dashboardLayout.savePreset}
+          onDeletePreset={dashboardLayout.deletePreset}
+          onShowPanel={(id) => dashboardLayout.setHidden(id, false)}
+        />
+
+        {/* Dashboard Panels */}
+        <DashboardGrid
+          layout={dashboardLayout.layout}
+          isEditing={dashboardLayout.isEditing}
+          onMove={dashboardLayout.move}
+          onResize={dashboardLayout.resize}
+          onHide={(id) => dashboardLayout.setHidden(id, true)}
+          panels={{
+            'system-health': (
+              <div className="bg-white border border-gray-200 rounded-xl shadow-sm h-full overflow-hidden">
+                <div className="p-4 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-black">System Health</h3>
                 </div>
-              </div>
-
-              <div className="flex items-center space-x-3">
-                <Activity className="w-5 h-5 text-gray-600" />
-                <div>
-                  <div className="text-sm font-medium text-black">
-                    {dashboardState.messageCount > 0 ? Math.round(dashboardState.getMessageRate()) : 0}
-                  </div>
-                  <div className="text-xs text-gray-500">Rate (msg/sec)</div>
-                </div>
-              </div>
-
-              <div className="flex items-center space-x-3">
-                <Zap className="w-5 h-5 text-gray-600" />
-                <div>
-                  <div className="text-sm font-medium text-black">
-                    {state.metrics.processing_delay_ms}ms
-                  </div>
-                  <div className="text-xs text-gray-500">Processing Delay</div>
-                </div>
-              </div>
+                <div className="p-4">
+                  <div className="grid grid-cols-8 gap-6">
+                    <div className="flex items-center space-x-3">
+                      <Database className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm font-medium text-black">
+                          {state.metrics.memory_usage_mb.toFixed(1)} MB
+                        </div>
+                        <div className="text-xs text-gray-500">Memory</div>
+                      </div>
+                    </div>
 
-              <div className="flex items-center space-x-3">
-                <Users className="w-5 h-5 text-gray-600" />
-                <div>
-                  <div className="text-sm font-medium text-black">
-                    {state.metrics.active_clients}
-                  </div>
-                  <div className="text-xs text-gray-500">Clients</div>
-                </div>
-              </div>
+                    <div className="flex items-center space-x-3">
+                      <Activity className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm font-medium text-black">
+                          {dashboardState.messageCount > 0 ? Math.round(dashboardState.getMessageRate()) : 0}
+                        </div>
+                        <div className="text-xs text-gray-500">Rate (msg/sec)</div>
+                      </div>
+                    </div>
 
-              <div className="flex items-center space-x-3">
-                <Activity className={`w-5 h-5 text-gray-600 transition-all duration-200 ${isUpdating ? 'animate-subtle-pulse' : ''}`} />
-                <div>
-                  <div className={`text-sm font-medium transition-all duration-200 ${(state.orderbook_data.data_age_ms ?? 0) > 1000 ? 'text-red-500' :
-                    (state.orderbook_data.data_age_ms ?? 0) > 500 ? 'text-yellow-500' : 'text-emerald-500'
-                    }`}>
-                    {state.orderbook_data.data_age_ms ? state.orderbook_data.data_age_ms.toFixed(0) + 'ms' : '0ms'}
-                  </div>
-                  <div className="text-xs text-gray-500">Data Age</div>
-                </div>
-              </div>
+                    <div
+                      className="flex items-center space-x-3"
+                      title={`Message rate percentiles over the last ${throughput.samples} heartbeat samples`}
+                    >
+                      <Gauge className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm font-medium text-black whitespace-nowrap">
+                          {throughput.p50.toFixed(1)} / {throughput.p95.toFixed(1)} / {throughput.max.toFixed(1)}
+                        </div>
+                        <div className="text-xs text-gray-500">p50 / p95 / max</div>
+                      </div>
+                    </div>
 
-              <div className="flex items-center space-x-3">
-                <div className={`w-3 h-3 rounded-full ${state.metrics.server_status === 'healthy' ? 'bg-emerald-500' : 'bg-yellow-500'}`}></div>
-                <div>
-                  <div className="text-sm font-medium text-black">
-                    {state.metrics.server_status === 'healthy' ? 'Healthy' : 'Degraded'}
-                  </div>
-                  <div className="text-xs text-gray-500">Server Status</div>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
+                    <div className="flex items-center space-x-3">
+                      <Zap className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm font-medium text-black">
+                          {state.metrics.processing_delay_ms}ms
+                        </div>
+                        <div className="text-xs text-gray-500">Processing Delay</div>
+                      </div>
+                    </div>
 
-        {/* Main Grid - Orderbook Left, Events Chart Right */}
-        <div
-          className="flex gap-6 w-full"
-          style={{
-            height: `calc(100vh - ${280 +
-              (isDisconnectedDueToStaleness ? 72 : 0)
-              }px)`
-          }}
-        >
-          {/* Orderbook Section - Left */}
-          <div className="flex-1 bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden flex flex-col h-full">
-            {/* Orderbook Header */}
-            <div className="border-b border-gray-200 p-4 bg-white flex-shrink-0">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-4">
-                  <h2 className="text-lg font-semibold text-black">Order Book</h2>
-                  <div className={`px-2 py-1 rounded text-xs font-medium transition-all duration-300 ${getDataFreshnessColor(state.orderbook_data.data_age_ms, state.orderbook_data.is_stale)} ${isUpdating ? 'animate-subtle-slide-in' : ''}`}>
-                    {getDataFreshnessText(state.orderbook_data.data_age_ms, state.orderbook_data.is_stale)}
-                  </div>
-                </div>
-                <div className="flex items-center space-x-6 text-sm text-gray-600">
-                  <div className="transition-all duration-300">
-                    Mid: {formatPrice(state.orderbook_data.mid_price)}
-                  </div>
-                  <div className="transition-all duration-300">
-                    Spread: {formatPrice(state.orderbook_data.spread)}
-                  </div>
-                  <div className="transition-all duration-300">
-                    Seq: {state.orderbook_data.sequence_id}
-                  </div>
-                  {state.orderbook_data.data_age_ms !== undefined && (
-                    <div className={`font-medium transition-all duration-300 ${state.orderbook_data.data_age_ms > 1000 ? 'text-red-500' :
-                      state.orderbook_data.data_age_ms > 500 ? 'text-yellow-500' : 'text-emerald-500'
-                      }`}>
-                      Age: {state.orderbook_data.data_age_ms.toFixed(0)}ms
+                    <div className="flex items-center space-x-3">
+                      <Users className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm font-medium text-black">
+                          {state.metrics.active_clients}
+                        </div>
+                        <div className="text-xs text-gray-500">Clients</div>
+                      </div>
                     </div>
-                  )}
-                </div>
-              </div>
-            </div>
 
+                    <div className="flex items-center space-x-3">
+                      <Activity className={`w-5 h-5 text-gray-600 transition-all duration-200 ${isUpdating ? 'animate-subtle-pulse' : ''}`} />
+                      <div>
+                        <div className={`text-sm font-medium transition-all duration-200 ${stalenessStyle.text}`}>
+                          {orderbook.data_age_ms ? orderbook.data_age_ms.toFixed(0) + 'ms' : '0ms'}
+                        </div>
+                        <div className="text-xs text-gray-500">Data Age</div>
+                      </div>
+                    </div>
 
-            {/* Orderbook Content */}
-            <div className="flex-1 p-4 overflow-hidden">
-              <div className="grid grid-cols-2 gap-6 h-full">
-                {/* Bids (Buy Orders) - Left Side */}
-                <div className="space-y-1 overflow-hidden flex flex-col">
-                  <div className="flex justify-between text-xs text-gray-600 font-medium border-b border-gray-200 pb-2">
-                    <span>Price (USD)</span>
-                    <span>Size (BTC)</span>
-                  </div>
-                  <div className="space-y-0.5 flex-1">
-                    {state.orderbook_data.bids.slice(0, 15).map((bid, index) => {
-                      const btcSize = parseFloat(bid[1])
-                      const maxSize = Math.max(...state.orderbook_data.bids.slice(0, 15).map(b => parseFloat(b[1])))
-                      const widthPercent = maxSize > 0 ? (btcSize / maxSize) * 100 : 0
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-3 h-3 rounded-full ${state.metrics.server_status === 'healthy' ? 'bg-emerald-500' : 'bg-yellow-500'}`}></div>
+                      <div>
+                        <div className="text-sm font-medium text-black">
+                          {state.metrics.server_status === 'healthy' ? 'Healthy' : 'Degraded'}
+                        </div>
+                        <div className="text-xs text-gray-500">Server Status</div>
+                      </div>
+                    </div>
 
-                      return (
-                        <div
-                          key={index}
-                          className={`relative flex justify-between text-sm py-1.5 px-2 rounded transition-all duration-200 hover:bg-emerald-50 ${index === 0 && isUpdating ? 'border-l-2 border-emerald-400 animate-subtle-slide-in' : ''
-                            }`}
-                          style={{
-                            background: index === 0 && isUpdating
-                              ? `linear-gradient(to right, rgba(16, 185, 129, 0.15) ${widthPercent}%, transparent ${widthPercent}%)`
-                              : `linear-gradient(to right, rgba(16, 185, 129, 0.08) ${widthPercent}%, transparent ${widthPercent}%)`
-                          }}
-                        >
-                          <span className={`text-emerald-500 font-mono font-medium transition-all duration-200 relative z-10 ${index === 0 && isUpdating ? 'text-emerald-600' : ''
-                            }`}>
-                            {formatPrice(parseFloat(bid[0]))}
-                          </span>
-                          <span className={`text-gray-700 font-mono transition-all duration-200 relative z-10 ${index === 0 && isUpdating ? 'text-gray-800' : ''
-                            }`}>
-                            {formatQuantity(bid[1])}
-                          </span>
+                    <div
+                      className="flex items-center space-x-3"
+                      title={state.protocol_errors.last_error ?? 'No malformed messages received'}
+                    >
+                      <FileWarning className={`w-5 h-5 ${state.protocol_errors.total > 0 ? 'text-red-500' : 'text-gray-600'}`} />
+                      <div>
+                        <div className={`text-sm font-medium ${state.protocol_errors.total > 0 ? 'text-red-600' : 'text-black'}`}>
+                          {state.protocol_errors.total}
                         </div>
-                      )
-                    })}
+                        <div className="text-xs text-gray-500">Protocol Errors</div>
+                      </div>
+                    </div>
                   </div>
                 </div>
-
-                {/* Asks (Sell Orders) - Right Side */}
-                <div className="space-y-1 overflow-hidden flex flex-col">
-                  <div className="flex justify-between text-xs text-gray-600 font-medium border-b border-gray-200 pb-2">
-                    <span>Price (USD)</span>
-                    <span>Size (BTC)</span>
-                  </div>
-                  <div className="space-y-0.5 flex-1">
-                    {state.orderbook_data.asks.slice(0, 15).reverse().map((ask, index) => {
-                      const btcSize = parseFloat(ask[1])
-                      const maxSize = Math.max(...state.orderbook_data.asks.slice(0, 15).map(a => parseFloat(a[1])))
-                      const widthPercent = maxSize > 0 ? (btcSize / maxSize) * 100 : 0
-
-                      return (
+              </div>
+            ),
+            'orderbook': (
+              <div className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden flex flex-col h-full">
+                {/* Orderbook Header */}
+                <div className="border-b border-gray-200 p-4 bg-white flex-shrink-0">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <h2 className="text-lg font-semibold text-black">Order Book</h2>
+                      <div className={`px-2 py-1 rounded text-xs font-medium transition-all duration-300 ${stalenessStyle.badge} ${isUpdating ? 'animate-subtle-slide-in' : ''}`}>
+                        {stalenessStyle.label}
+                      </div>
+                      <OrderbookDisplayControls
+                        instrument={instrument}
+                        groupingMultiplier={groupingMultiplier}
+                        visibleDepth={visibleDepth}
+                        onGroupingChange={setGroupingMultiplier}
+                        onVisibleDepthChange={setVisibleDepth}
+                        showDeltas={showDeltas}
+                        onShowDeltasChange={setShowDeltas}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-6 text-sm text-gray-600">
+                      <div className="transition-all duration-300">
+                        Mid: {formatPrice(orderbook.mid_price)}
+                      </div>
+                      <div className="transition-all duration-300">
+                        Spread: {formatPrice(orderbook.spread)}
+                      </div>
+                      <div className="transition-all duration-300">
+                        Seq: {orderbook.sequence_id}
+                      </div>
+                      {(state.sequence_stats.gaps > 0 || state.sequence_stats.checksum_failures > 0) && (
                         <div
-                          key={index}
-                          className={`relative flex justify-between text-sm py-1.5 px-2 rounded transition-all duration-200 hover:bg-red-50 ${index === 0 && isUpdating ? 'border-l-2 border-red-400 animate-subtle-slide-in' : ''
-                            }`}
-                          style={{
-                            background: index === 0 && isUpdating
-                              ? `linear-gradient(to right, rgba(239, 68, 68, 0.15) ${widthPercent}%, transparent ${widthPercent}%)`
-                              : `linear-gradient(to right, rgba(239, 68, 68, 0.08) ${widthPercent}%, transparent ${widthPercent}%)`
-                          }}
+                          className={`font-medium transition-all duration-300 ${state.sequence_stats.resync_pending ? 'text-yellow-500' : 'text-gray-600'}`}
+                          title={`${state.sequence_stats.missed_messages} missed • ${state.sequence_stats.duplicates} duplicate • ${state.sequence_stats.out_of_order} out of order • ${state.sequence_stats.checksum_failures} checksum failures • ${state.sequence_stats.resyncs} resyncs`}
                         >
-                          <span className={`text-red-500 font-mono font-medium transition-all duration-200 relative z-10 ${index === 0 && isUpdating ? 'text-red-600' : ''
-                            }`}>
-                            {formatPrice(parseFloat(ask[0]))}
-                          </span>
-                          <span className={`text-gray-700 font-mono transition-all duration-200 relative z-10 ${index === 0 && isUpdating ? 'text-gray-800' : ''
-                            }`}>
-                            {formatQuantity(ask[1])}
-                          </span>
+                          {state.sequence_stats.resync_pending ? 'Resyncing…' : `Gaps: ${state.sequence_stats.gaps}`}
                         </div>
-                      )
-                    })}
+                      )}
+                      {orderbook.data_age_ms !== undefined && (
+                        <div className={`font-medium transition-all duration-300 ${stalenessStyle.text}`}>
+                          Age: {orderbook.data_age_ms.toFixed(0)}ms
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* No Data State */}
-              {state.orderbook_data.bids.length === 0 && state.orderbook_data.asks.length === 0 && (
-                <div className="flex items-center justify-center h-64 text-gray-500">
-                  <div className="text-center">
-                    <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                    <p className="text-sm">Waiting for market data...</p>
+
+                {/* Orderbook Content */}
+                <div className="flex-1 p-4 overflow-hidden">
+                  <div className="grid grid-cols-2 gap-6 h-full">
+                    {/* Bids (Buy Orders) - Left Side */}
+                    <OrderbookSide
+                      side="bids"
+                      levels={displayBids}
+                      diff={levelChanges.bids}
+                      showDeltas={showDeltas}
+                      priceUnit={priceUnit}
+                      sizeUnit={instrument.base_asset}
+                      formatPrice={formatPrice}
+                      formatQuantity={formatQuantity}
+                    />
+
+                    {/* Asks (Sell Orders) - Right Side */}
+                    <OrderbookSide
+                      side="asks"
+                      levels={displayAsks}
+                      diff={levelChanges.asks}
+                      showDeltas={showDeltas}
+                      priceUnit={priceUnit}
+                      sizeUnit={instrument.base_asset}
+                      formatPrice={formatPrice}
+                      formatQuantity={formatQuantity}
+                    />
                   </div>
-                </div>
-              )}
-            </div>
-          </div>
 
-          {/* Events Rate Chart - Right */}
-          <div className="flex-1 h-full">
-            <EventsRateChart
-              key={chartResetKey}
-              totalEventsReceived={state.metrics.total_events_received || 0}
-              className="h-full"
-              isConnected={isConnected}
-            />
-          </div>
-        </div>
+                  {/* No Data State */}
+                  {orderbook.bids.length === 0 && orderbook.asks.length === 0 && (
+                    <div className="flex items-center justify-center h-64 text-gray-500">
+                      <div className="text-center">
+                        <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p className="text-sm">Waiting for market data...</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ),
+            'events-rate': (
+              <EventsRateChart
+                key={chartResetKey}
+                totalEventsReceived={state.metrics.total_events_received || 0}
+                className="h-full"
+                isConnected={isConnected}
+              />
+            ),
+            'depth': (
+              <DepthChart
+                bids={orderbook.bids}
+                asks={orderbook.asks}
+                midPrice={orderbook.mid_price}
+                instrument={instrument}
+                className="h-full"
+              />
+            ),
+            'price-history': (
+              <PriceHistoryChart
+                samples={state.price_history}
+                instrument={instrument}
+                className="h-full"
+              />
+            ),
+            'performance': (
+              <PerformanceChart data={state.performance_history} className="h-full" />
+            ),
+            'metrics': (
+              <MetricsPanel metrics={state.metrics} className="h-full" />
+            ),
+            'logs': (
+              <LogsPanel logs={state.logs} className="h-full" />
+            ),
+            'orderbook-detail': (
+              <OrderbookView
+                bids={orderbook.bids}
+                asks={orderbook.asks}
+                midPrice={orderbook.mid_price}
+                spread={orderbook.spread}
+                lastUpdate={orderbook.timestamp ? new Date(orderbook.timestamp) : undefined}
+                groupingStep={groupingMultiplier > 1 ? getGroupingStep(instrument, groupingMultiplier) : 0}
+                visibleDepth={visibleDepth}
+                instrument={instrument}
+                className="h-full"
+              />
+            ),
+            'incidents': (
+              <IncidentsPanel
+                incidents={state.incidents}
+                onAcknowledge={dashboardState.acknowledgeIncident}
+                onResolve={dashboardState.resolveIncident}
+                onAnnotate={dashboardState.annotateIncident}
+                sinkNames={incidentSinks.sinks.map(sink => sink.name)}
+                deliveries={incidentSinks.deliveries}
+                onExport={incidentSinks.exportIncident}
+                className="h-full"
+              />
+            ),
+            'diagnostics': (
+              <ConnectionDiagnosticsPanel
+                diagnostics={transportDiagnostics.diagnostics}
+                now={transportDiagnostics.now}
+                // After the kill switch, reconnecting goes through Resume so the halt is cleared too
+                onForceReconnect={isDisconnectedDueToStaleness ? recovery.resume : transportDiagnostics.forceReconnect}
+                onResetAttempts={transportDiagnostics.resetReconnectAttempts}
+                className="h-full"
+              />
+            )
+          }}
+        />
       </div>
 
       {/* Welcome Modal */}
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Publisher Status - Market Data Monitor",
+  description: "Publisher health checks, state and metrics summary",
+};
+
+export default function StatusLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
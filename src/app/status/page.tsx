@@ -0,0 +1,168 @@
+'use client'
+
+import Link from 'next/link'
+import { Activity, ArrowLeft, BarChart3, HeartPulse, RefreshCw, Server } from 'lucide-react'
+import { useServerStatus } from '@/hooks/useServerStatus'
+import { formatDuration } from '@/lib/incidents'
+import { formatUTCTime } from '@/utils/datetime'
+import { API_CONFIG } from '@/config/api'
+
+const HEALTHY_STATUSES = ['ok', 'healthy', 'up', 'running']
+
+function isHealthyStatus(status: unknown): boolean {
+  return typeof status === 'string' && HEALTHY_STATUSES.includes(status.toLowerCase())
+}
+
+function formatValue(key: string, value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') {
+    if (key.includes('uptime')) return formatDuration(value * 1000)
+    if (key.endsWith('_ms')) return `${value.toFixed(1)}ms`
+    if (key.endsWith('_mb')) return `${value.toFixed(1)} MB`
+    return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(2)
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function formatKey(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase())
+}
+
+interface StatusCardProps {
+  title: string
+  icon: React.ReactNode
+  endpoint: string
+  data: Record<string, unknown> | null
+  error: string | null
+  latencyMs: number | null
+  badge?: { label: string; className: string }
+}
+
+function StatusCard({ title, icon, endpoint, data, error, latencyMs, badge }: StatusCardProps) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {icon}
+          <h3 className="text-lg font-semibold text-black">{title}</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          {latencyMs !== null && <span className="text-xs text-gray-500">{latencyMs}ms</span>}
+          {badge && (
+            <span className={`px-2 py-1 rounded-md text-xs font-medium ${badge.className}`}>{badge.label}</span>
+          )}
+        </div>
+      </div>
+      <div className="p-4">
+        <div className="text-xs font-mono text-gray-400 mb-3">GET {endpoint}</div>
+        {error ? (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3 break-words">{error}</div>
+        ) : !data ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+            {Object.entries(data).map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-sm text-gray-500">{formatKey(key)}</dt>
+                <dd className="text-sm font-medium text-black break-words">{formatValue(key, value)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function StatusPage() {
+  const { snapshot, isRefreshing, refresh, refreshIntervalMs } = useServerStatus()
+  const { health, status, publisher, metrics } = snapshot
+
+  const healthBadge = health.error
+    ? { label: 'UNREACHABLE', className: 'text-red-600 bg-red-50' }
+    : health.data
+      ? isHealthyStatus(health.data.status)
+        ? { label: 'HEALTHY', className: 'text-emerald-600 bg-emerald-50' }
+        : { label: String(health.data.status).toUpperCase(), className: 'text-yellow-600 bg-yellow-50' }
+      : undefined
+
+  const isRunning = publisher.data?.publisher?.is_running ?? status.data?.publisher?.is_running
+  const publisherBadge = isRunning === undefined
+    ? undefined
+    : isRunning
+      ? { label: 'RUNNING', className: 'text-emerald-600 bg-emerald-50' }
+      : { label: 'STOPPED', className: 'text-gray-600 bg-gray-100' }
+
+  return (
+    <div className="bg-white min-h-screen">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/" className="flex items-center space-x-1 text-sm text-gray-600 hover:text-black">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Dashboard</span>
+            </Link>
+            <div>
+              <h1 className="text-xl font-semibold text-black">Publisher Status</h1>
+              <p className="text-sm text-gray-600">{API_CONFIG.SERVER_URL}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-gray-500">
+              {snapshot.checked_at ? `Checked ${formatUTCTime(snapshot.checked_at)}` : 'Checking…'}
+              {' • every '}{refreshIntervalMs / 1000}s
+            </span>
+            <button
+              onClick={() => refresh()}
+              disabled={isRefreshing}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <StatusCard
+          title="Health"
+          icon={<HeartPulse className="w-5 h-5 text-gray-600" />}
+          endpoint={API_CONFIG.ENDPOINTS.HEALTH}
+          data={health.data}
+          error={health.error}
+          latencyMs={health.latency_ms}
+          badge={healthBadge}
+        />
+        <StatusCard
+          title="Publisher"
+          icon={<Activity className="w-5 h-5 text-gray-600" />}
+          endpoint={API_CONFIG.ENDPOINTS.PUBLISHER_STATUS}
+          data={publisher.data?.publisher ?? publisher.data}
+          error={publisher.error}
+          latencyMs={publisher.latency_ms}
+          badge={publisherBadge}
+        />
+        <StatusCard
+          title="Server Status"
+          icon={<Server className="w-5 h-5 text-gray-600" />}
+          endpoint={API_CONFIG.ENDPOINTS.STATUS}
+          data={status.data}
+          error={status.error}
+          latencyMs={status.latency_ms}
+        />
+        <StatusCard
+          title="Metrics Summary"
+          icon={<BarChart3 className="w-5 h-5 text-gray-600" />}
+          endpoint={API_CONFIG.ENDPOINTS.METRICS}
+          data={metrics.data}
+          error={metrics.error}
+          latencyMs={metrics.latency_ms}
+        />
+      </main>
+    </div>
+  )
+}
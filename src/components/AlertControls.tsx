@@ -0,0 +1,49 @@
+'use client'
+
+import { Bell, BellOff, Volume2, VolumeX } from 'lucide-react'
+import type { AlertPreferences } from '@/lib/alerts'
+
+interface AlertControlsProps {
+  preferences: AlertPreferences
+  permission: NotificationPermission | 'unsupported'
+  onToggleNotifications: () => void
+  onToggleSound: () => void
+}
+
+const buttonClass = 'p-1.5 rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function AlertControls({ preferences, permission, onToggleNotifications, onToggleSound }: AlertControlsProps) {
+  const notificationsTitle = permission === 'unsupported'
+    ? 'Desktop notifications are not supported by this browser'
+    : permission === 'denied'
+      ? 'Desktop notifications are blocked in the browser settings'
+      : preferences.notifications
+        ? 'Desktop notifications on - click to turn off'
+        : 'Notify me about incidents while this tab is in the background'
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button
+        onClick={onToggleNotifications}
+        disabled={permission === 'unsupported' || permission === 'denied'}
+        className={`${buttonClass} ${preferences.notifications
+          ? 'bg-blue-50 border-blue-200 text-blue-600'
+          : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-100'
+          }`}
+        title={notificationsTitle}
+      >
+        {preferences.notifications ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={onToggleSound}
+        className={`${buttonClass} ${preferences.sound
+          ? 'bg-blue-50 border-blue-200 text-blue-600'
+          : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-100'
+          }`}
+        title={preferences.sound ? 'Alarm sounds on - click to mute' : 'Play an alarm sound for incidents'}
+      >
+        {preferences.sound ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+      </button>
+    </div>
+  )
+}
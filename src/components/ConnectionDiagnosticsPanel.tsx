@@ -0,0 +1,134 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { Plug, RefreshCw, RotateCcw } from 'lucide-react'
+import { formatDuration } from '@/lib/incidents'
+import type { ConnectionState, TransportDiagnostics } from '@/lib/transport'
+import { formatUTCTime } from '@/utils/datetime'
+
+interface ConnectionDiagnosticsPanelProps {
+  diagnostics: TransportDiagnostics
+  // Current time from the last refresh, null before mount
+  now: number | null
+  onForceReconnect: () => void
+  onResetAttempts: () => void
+  className?: string
+}
+
+const STATE_STYLES: Record<ConnectionState, string> = {
+  idle: 'text-gray-600 bg-gray-50 border-gray-200',
+  connecting: 'text-blue-600 bg-blue-50 border-blue-200',
+  connected: 'text-emerald-600 bg-emerald-50 border-emerald-200',
+  reconnecting: 'text-yellow-700 bg-yellow-50 border-yellow-200',
+  disconnected: 'text-gray-600 bg-gray-50 border-gray-200',
+  failed: 'text-red-600 bg-red-50 border-red-200'
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function StateBadge({ state }: { state: ConnectionState }) {
+  return (
+    <span className={`px-1.5 py-0.5 rounded border text-xs font-medium ${STATE_STYLES[state]}`}>
+      {state}
+    </span>
+  )
+}
+
+export default function ConnectionDiagnosticsPanel({
+  diagnostics,
+  now,
+  onForceReconnect,
+  onResetAttempts,
+  className = ''
+}: ConnectionDiagnosticsPanelProps) {
+  const ago = (timestamp: number | null) => timestamp === null || now === null
+    ? '—'
+    : `${formatDuration(Math.max(0, now - timestamp))} ago`
+
+  const nextRetry = diagnostics.next_retry_at !== null && now !== null
+    ? `in ${Math.max(0, Math.ceil((diagnostics.next_retry_at - now) / 1000))}s`
+    : '—'
+
+  const rows: [string, ReactNode][] = [
+    ['Transport', `${diagnostics.label} (${diagnostics.kind})`],
+    ['URL', <span key="url" className="font-mono break-all">{diagnostics.url ?? 'in-browser'}</span>],
+    ['State', <StateBadge key="state" state={diagnostics.state} />],
+    ['Attempts', `${diagnostics.reconnect_attempts}/${diagnostics.max_reconnect_attempts}`],
+    ['Next retry', nextRetry],
+    ['Connected for', diagnostics.connected_since !== null && now !== null
+      ? formatDuration(Math.max(0, now - diagnostics.connected_since))
+      : '—'],
+    ['Messages', diagnostics.messages_received.toLocaleString()],
+    ['Received', diagnostics.url ? formatBytes(diagnostics.bytes_received) : '—'],
+    ['Last message', ago(diagnostics.last_message_at)],
+    ['Last keepalive', ago(diagnostics.last_keepalive_at)]
+  ]
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-black flex items-center space-x-2">
+          <Plug className="w-5 h-5 text-gray-600" />
+          <span>Connection Diagnostics</span>
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onResetAttempts}
+            disabled={diagnostics.reconnect_attempts === 0}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Start the reconnect attempt count over"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset attempts</span>
+          </button>
+          <button
+            onClick={onForceReconnect}
+            className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-blue-700 bg-blue-50 border border-blue-200 hover:bg-blue-100"
+            title="Drop the connection and connect again now"
+          >
+            <RefreshCw className="w-3 h-3" />
+            <span>Reconnect</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 flex-1 min-h-0 overflow-y-auto space-y-4">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {diagnostics.last_error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <span className="font-medium">Last error</span> ({ago(diagnostics.last_error_at)}): {diagnostics.last_error}
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">State history</h4>
+          {diagnostics.history.length === 0 ? (
+            <p className="text-sm text-gray-500">No connection activity yet</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {[...diagnostics.history].reverse().map((change, i) => (
+                <li key={`${change.at}-${i}`} className="flex items-center space-x-2">
+                  <span className="font-mono text-gray-500">{formatUTCTime(new Date(change.at))}</span>
+                  <StateBadge state={change.state} />
+                  {change.detail && <span className="text-gray-600 truncate">{change.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useRef, type ReactNode, type PointerEvent } from 'react'
+import { EyeOff, GripVertical } from 'lucide-react'
+import {
+  GRID_COLUMNS,
+  GRID_GAP_PX,
+  GRID_ROW_HEIGHT_PX,
+  PANEL_LABELS,
+  type DashboardLayout,
+  type PanelId
+} from '@/lib/panels'
+
+interface DashboardGridProps {
+  layout: DashboardLayout
+  isEditing: boolean
+  panels: Record<PanelId, ReactNode>
+  onMove: (id: PanelId, targetId: PanelId) => void
+  onResize: (id: PanelId, colSpan: number, rowSpan: number) => void
+  onHide: (id: PanelId) => void
+}
+
+interface ResizeState {
+  id: PanelId
+  startX: number
+  startY: number
+  startColSpan: number
+  startRowSpan: number
+  colSpan: number
+  rowSpan: number
+}
+
+export default function DashboardGrid({ layout, isEditing, panels, onMove, onResize, onHide }: DashboardGridProps) {
+  const gridRef = useRef<HTMLDivElement>(null)
+  const [draggingId, setDraggingId] = useState<PanelId | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<PanelId | null>(null)
+  // Spans follow the pointer locally and are only committed (and saved) on release
+  const [resizing, setResizing] = useState<ResizeState | null>(null)
+
+  const startResize = (e: PointerEvent<HTMLDivElement>, id: PanelId, colSpan: number, rowSpan: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setResizing({ id, startX: e.clientX, startY: e.clientY, startColSpan: colSpan, startRowSpan: rowSpan, colSpan, rowSpan })
+  }
+
+  const updateResize = (e: PointerEvent<HTMLDivElement>) => {
+    if (!resizing || !gridRef.current) return
+
+    const gridWidth = gridRef.current.clientWidth
+    const columnWidth = (gridWidth - GRID_GAP_PX * (GRID_COLUMNS - 1)) / GRID_COLUMNS
+    const colDelta = Math.round((e.clientX - resizing.startX) / (columnWidth + GRID_GAP_PX))
+    const rowDelta = Math.round((e.clientY - resizing.startY) / (GRID_ROW_HEIGHT_PX + GRID_GAP_PX))
+
+    setResizing({
+      ...resizing,
+      colSpan: Math.min(GRID_COLUMNS, Math.max(1, resizing.startColSpan + colDelta)),
+      rowSpan: Math.max(1, resizing.startRowSpan + rowDelta)
+    })
+  }
+
+  const finishResize = () => {
+    if (!resizing) return
+    onResize(resizing.id, resizing.colSpan, resizing.rowSpan)
+    setResizing(null)
+  }
+
+  const endDrag = () => {
+    setDraggingId(null)
+    setDropTargetId(null)
+  }
+
+  return (
+    <div
+      ref={gridRef}
+      className="grid"
+      style={{
+        gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`,
+        gridAutoRows: `${GRID_ROW_HEIGHT_PX}px`,
+        gap: `${GRID_GAP_PX}px`
+      }}
+    >
+      {layout.panels.filter(panel => !panel.hidden).map(panel => {
+        const colSpan = resizing?.id === panel.id ? resizing.colSpan : panel.col_span
+        const rowSpan = resizing?.id === panel.id ? resizing.rowSpan : panel.row_span
+        const isDropTarget = dropTargetId === panel.id && draggingId !== panel.id
+
+        return (
+          <div
+            key={panel.id}
+            className={`relative min-w-0 min-h-0 rounded-xl transition-shadow ${isEditing ? 'ring-2 ring-blue-200' : ''} ${isDropTarget ? 'ring-blue-500' : ''} ${draggingId === panel.id ? 'opacity-50' : ''}`}
+            style={{
+              gridColumn: `span ${colSpan} / span ${colSpan}`,
+              gridRow: `span ${rowSpan} / span ${rowSpan}`
+            }}
+            draggable={isEditing && !resizing}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move'
+              e.dataTransfer.setData('text/plain', panel.id)
+              setDraggingId(panel.id)
+            }}
+            onDragOver={(e) => {
+              if (!draggingId) return
+              e.preventDefault()
+              e.dataTransfer.dropEffect = 'move'
+              setDropTargetId(panel.id)
+            }}
+            onDragLeave={() => setDropTargetId(prev => prev === panel.id ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (draggingId) onMove(draggingId, panel.id)
+              endDrag()
+            }}
+            onDragEnd={endDrag}
+          >
+            {/* Panels stay inert while editing so dragging doesn't click through to their controls */}
+            <div className={`h-full ${isEditing ? 'pointer-events-none select-none' : ''}`}>
+              {panels[panel.id]}
+            </div>
+
+            {isEditing && (
+              <>
+                <div className="absolute top-2 left-2 right-2 flex items-center justify-between px-2 py-1 bg-white/95 border border-blue-200 rounded-lg shadow-sm cursor-move z-20">
+                  <div className="flex items-center space-x-1 text-xs font-medium text-gray-700">
+                    <GripVertical className="w-4 h-4 text-gray-400" />
+                    <span>{PANEL_LABELS[panel.id]}</span>
+                    <span className="text-gray-400">{colSpan}×{rowSpan}</span>
+                  </div>
+                  <button
+                    onClick={() => onHide(panel.id)}
+                    className="p-1 rounded text-gray-500 hover:text-gray-800 hover:bg-gray-100"
+                    title="Hide panel"
+                  >
+                    <EyeOff className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div
+                  className="absolute bottom-1 right-1 w-4 h-4 cursor-se-resize z-20 border-r-2 border-b-2 border-blue-400 rounded-br"
+                  title="Drag to resize"
+                  onPointerDown={(e) => startResize(e, panel.id, panel.col_span, panel.row_span)}
+                  onPointerMove={updateResize}
+                  onPointerUp={finishResize}
+                  onPointerCancel={() => setResizing(null)}
+                />
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo } from 'react'
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts'
+import { Layers } from 'lucide-react'
+import { buildDepthSeries, type DepthPoint } from '@/lib/depth'
+import { formatInstrumentPrice, formatInstrumentSize, type Instrument } from '@/lib/instruments'
+import type { PriceLevel } from '@/lib/orderbook'
+
+interface DepthChartProps {
+  bids: PriceLevel[]
+  asks: PriceLevel[]
+  midPrice: number
+  instrument: Instrument
+  className?: string
+}
+
+interface CustomTooltipProps {
+  active?: boolean
+  payload?: { payload: DepthPoint }[]
+}
+
+const BID_COLOR = '#10B981'
+const ASK_COLOR = '#EF4444'
+
+export default function DepthChart({ bids, asks, midPrice, instrument, className = '' }: DepthChartProps) {
+  const series = useMemo(() => buildDepthSeries(bids, asks, midPrice), [bids, asks, midPrice])
+
+  const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
+    if (!active || !payload || payload.length === 0) return null
+
+    const point = payload[0].payload
+    const isBid = point.bid_depth !== undefined
+    const depth = isBid ? point.bid_depth : point.ask_depth
+
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
+        <p className={`font-medium mb-1 ${isBid ? 'text-emerald-600' : 'text-red-600'}`}>
+          {isBid ? 'Bid' : 'Ask'} {formatInstrumentPrice(point.price, instrument)}
+        </p>
+        <p className="text-sm text-gray-700">
+          Cumulative: {formatInstrumentSize(depth ?? 0, instrument)} {instrument.base_asset}
+        </p>
+        <p className="text-sm text-gray-700">
+          From mid: {point.distance_bps >= 0 ? '+' : ''}{point.distance_bps.toFixed(1)} bps
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-black">Market Depth</h3>
+          <div className="flex items-center space-x-4 text-xs text-gray-600">
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: BID_COLOR }}></div>
+              <span>Bids</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: ASK_COLOR }}></div>
+              <span>Asks</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-1 flex-1 min-h-0">
+        {series.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            <div className="text-center">
+              <Layers className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-sm">Waiting for orderbook data...</p>
+            </div>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={series} margin={{ top: 10, right: 15, left: 15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+              <XAxis
+                dataKey="price"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="#6B7280"
+                fontSize={11}
+                tick={{ fill: '#6B7280' }}
+                tickFormatter={(price: number) => price.toFixed(instrument.price_precision)}
+              />
+              <YAxis
+                stroke="#6B7280"
+                fontSize={11}
+                tick={{ fill: '#6B7280' }}
+                label={{ value: `Size (${instrument.base_asset})`, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              {midPrice > 0 && <ReferenceLine x={midPrice} stroke="#9CA3AF" strokeDasharray="4 4" />}
+              {/* Bid depth holds from each level up to the next better one, ask depth from each level outwards */}
+              <Area
+                type="stepBefore"
+                dataKey="bid_depth"
+                name="Bids"
+                stroke={BID_COLOR}
+                fill={BID_COLOR}
+                fillOpacity={0.2}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+              <Area
+                type="stepAfter"
+                dataKey="ask_depth"
+                name="Asks"
+                stroke={ASK_COLOR}
+                fill={ASK_COLOR}
+                fillOpacity={0.2}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  )
+}
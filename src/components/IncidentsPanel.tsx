@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { AlertTriangle, CheckCircle, Eye, MessageSquare, RotateCw, Send } from 'lucide-react'
+import { formatUTCTime } from '@/utils/datetime'
+import { formatDuration, getIncidentDuration, type Incident, type IncidentStatus } from '@/lib/incidents'
+import type { DeliveryStatus, SinkDelivery } from '@/lib/incidentSinks'
+
+interface IncidentsPanelProps {
+  incidents: Incident[]
+  onAcknowledge: (id: string) => void
+  onResolve: (id: string) => void
+  onAnnotate: (id: string, text: string) => void
+  // Configured incident sinks and the latest delivery to each, per incident id
+  sinkNames?: string[]
+  deliveries?: Record<string, Record<string, SinkDelivery>>
+  onExport?: (id: string, sinkName?: string) => void
+  className?: string
+}
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  open: 'text-red-600 bg-red-50 border-red-200',
+  acknowledged: 'text-yellow-600 bg-yellow-50 border-yellow-200',
+  resolved: 'text-emerald-600 bg-emerald-50 border-emerald-200'
+}
+
+const DELIVERY_STYLES: Record<DeliveryStatus, string> = {
+  sending: 'text-blue-600 bg-blue-50 border-blue-200',
+  sent: 'text-emerald-600 bg-emerald-50 border-emerald-200',
+  unconfirmed: 'text-gray-600 bg-gray-50 border-gray-200',
+  failed: 'text-red-600 bg-red-50 border-red-200'
+}
+
+const formatUptime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
+
+export default function IncidentsPanel({
+  incidents,
+  onAcknowledge,
+  onResolve,
+  onAnnotate,
+  sinkNames = [],
+  deliveries = {},
+  onExport,
+  className = ''
+}: IncidentsPanelProps) {
+  const [showResolved, setShowResolved] = useState(false)
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({})
+  const [now, setNow] = useState(() => Date.now())
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  // Tick once a second so open incident durations stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Auto-scroll to the top when new incidents are added
+  useEffect(() => {
+    if (scrollRef.current && incidents.length > 0) {
+      scrollRef.current.scrollTop = 0
+    }
+  }, [incidents.length])
+
+  const openCount = incidents.filter(incident => incident.status === 'open').length
+  const visibleIncidents = incidents
+    .filter(incident => showResolved || incident.status !== 'resolved')
+    .slice()
+    .reverse()
+
+  const submitNote = (id: string) => {
+    const text = noteDrafts[id]?.trim()
+    if (!text) return
+    onAnnotate(id, text)
+    setNoteDrafts(prev => ({ ...prev, [id]: '' }))
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <h3 className="text-lg font-semibold text-black">Incidents</h3>
+            <div className={`px-2 py-1 rounded text-xs font-medium ${openCount > 0 ? 'text-red-600 bg-red-50' : 'text-gray-600 bg-gray-50'}`}>
+              {openCount} open
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+            />
+            <span>Show resolved</span>
+          </label>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {visibleIncidents.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-gray-500">
+            <div className="text-center">
+              <CheckCircle className="w-10 h-10 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No incidents</p>
+            </div>
+          </div>
+        ) : (
+          visibleIncidents.map(incident => (
+            <div key={incident.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className={`w-4 h-4 mt-0.5 ${incident.status === 'resolved' ? 'text-gray-400' : 'text-red-500'}`} />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-black">{incident.type}</span>
+                      <span className={`px-1.5 py-0.5 rounded border text-xs font-medium ${STATUS_STYLES[incident.status]}`}>
+                        {incident.status.toUpperCase()}
+                      </span>
+                      {incident.occurrences > 1 && (
+                        <span className="px-1.5 py-0.5 rounded text-xs font-medium text-gray-700 bg-gray-100">
+                          ×{incident.occurrences}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">{incident.details}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatUTCTime(new Date(incident.timestamp))} • {incident.scenario} • Uptime {formatUptime(incident.uptime)} • Duration {formatDuration(getIncidentDuration(incident, now))}
+                      {incident.occurrences > 1 && ` • Last seen ${formatUTCTime(new Date(incident.last_seen))}`}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {onExport && sinkNames.length > 0 && (
+                    <button
+                      onClick={() => onExport(incident.id)}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-blue-700 bg-blue-50 border border-blue-200 hover:bg-blue-100"
+                      title={`Send to ${sinkNames.join(', ')}`}
+                    >
+                      <Send className="w-3 h-3" />
+                      <span>Export</span>
+                    </button>
+                  )}
+                  {incident.status === 'open' && (
+                    <button
+                      onClick={() => onAcknowledge(incident.id)}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-yellow-700 bg-yellow-50 border border-yellow-200 hover:bg-yellow-100"
+                    >
+                      <Eye className="w-3 h-3" />
+                      <span>Acknowledge</span>
+                    </button>
+                  )}
+                  {incident.status !== 'resolved' && (
+                    <button
+                      onClick={() => onResolve(incident.id)}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-emerald-700 bg-emerald-50 border border-emerald-200 hover:bg-emerald-100"
+                    >
+                      <CheckCircle className="w-3 h-3" />
+                      <span>Resolve</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {deliveries[incident.id] && (
+                <div className="mt-2 ml-7 flex items-center flex-wrap gap-2">
+                  {Object.values(deliveries[incident.id]).map(delivery => (
+                    <span
+                      key={delivery.sink}
+                      className={`flex items-center space-x-1 px-1.5 py-0.5 rounded border text-xs font-medium ${DELIVERY_STYLES[delivery.status]}`}
+                      title={delivery.error ?? `${delivery.status} at ${formatUTCTime(new Date(delivery.updated_at))}`}
+                    >
+                      <span>{delivery.sink}: {delivery.status}{delivery.attempts > 1 ? ` (${delivery.attempts} attempts)` : ''}</span>
+                      {delivery.status === 'failed' && onExport && (
+                        <button
+                          onClick={() => onExport(incident.id, delivery.sink)}
+                          className="hover:text-red-800"
+                          title="Retry delivery"
+                        >
+                          <RotateCw className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {incident.notes.length > 0 && (
+                <div className="mt-2 ml-7 space-y-1">
+                  {incident.notes.map((note, index) => (
+                    <p key={index} className="text-xs text-gray-600">
+                      <span className="font-mono text-gray-400">[{formatUTCTime(new Date(note.timestamp))}]</span> {note.text}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-2 ml-7 flex items-center space-x-2">
+                <MessageSquare className="w-3 h-3 text-gray-400" />
+                <input
+                  type="text"
+                  value={noteDrafts[incident.id] ?? ''}
+                  onChange={(e) => setNoteDrafts(prev => ({ ...prev, [incident.id]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitNote(incident.id)
+                  }}
+                  placeholder="Add a note…"
+                  className="flex-1 text-xs border border-gray-200 rounded px-2 py-1 text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
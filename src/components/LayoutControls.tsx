@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { Eye, LayoutDashboard, Save, Trash2 } from 'lucide-react'
+import { PANEL_LABELS, type DashboardLayout, type LayoutPreset, type PanelId } from '@/lib/panels'
+
+interface LayoutControlsProps {
+  layout: DashboardLayout
+  presets: LayoutPreset[]
+  isEditing: boolean
+  onEditingChange: (editing: boolean) => void
+  onApplyPreset: (name: string) => void
+  onSavePreset: (name: string) => boolean
+  onDeletePreset: (name: string) => void
+  onShowPanel: (id: PanelId) => void
+}
+
+const buttonClass = 'flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function LayoutControls({
+  layout,
+  presets,
+  isEditing,
+  onEditingChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onShowPanel
+}: LayoutControlsProps) {
+  const [selectedPreset, setSelectedPreset] = useState('')
+  const [presetName, setPresetName] = useState('')
+  const hiddenPanels = layout.panels.filter(panel => panel.hidden)
+  const selected = presets.find(preset => preset.name === selectedPreset)
+
+  const handleSave = () => {
+    if (onSavePreset(presetName)) {
+      setSelectedPreset(presetName.trim())
+      setPresetName('')
+    }
+  }
+
+  return (
+    <div className="px-4 py-2 mb-4 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-600 flex-shrink-0">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <LayoutDashboard className="w-4 h-4 text-gray-500" />
+          <span>Layout</span>
+          <select
+            value={selectedPreset}
+            onChange={(e) => {
+              setSelectedPreset(e.target.value)
+              if (e.target.value) onApplyPreset(e.target.value)
+            }}
+            className="text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-1.5 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Choose preset…</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>
+                {preset.name}{preset.builtin ? '' : ' (saved)'}
+              </option>
+            ))}
+          </select>
+          {selected && !selected.builtin && (
+            <button
+              onClick={() => {
+                onDeletePreset(selected.name)
+                setSelectedPreset('')
+              }}
+              className={buttonClass}
+              title={`Delete preset "${selected.name}"`}
+            >
+              <Trash2 className="w-3 h-3" />
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {isEditing && (
+            <>
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Preset name"
+                className="text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1 w-36 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button onClick={handleSave} disabled={!presetName.trim()} className={buttonClass}>
+                <Save className="w-3 h-3" />
+                <span>Save as preset</span>
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => onEditingChange(!isEditing)}
+            className={`px-2 py-1 text-xs font-medium rounded-md border transition-colors ${isEditing
+              ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700'
+              : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-100'
+              }`}
+          >
+            {isEditing ? 'Done' : 'Customize'}
+          </button>
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="flex items-center flex-wrap gap-2 mt-2 pt-2 border-t border-gray-200 text-xs">
+          <span>Drag panels to reorder, drag the corner to resize.</span>
+          {hiddenPanels.length > 0 && <span className="text-gray-400">Hidden:</span>}
+          {hiddenPanels.map(panel => (
+            <button key={panel.id} onClick={() => onShowPanel(panel.id)} className={buttonClass}>
+              <Eye className="w-3 h-3" />
+              <span>{PANEL_LABELS[panel.id]}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
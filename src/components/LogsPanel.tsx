@@ -11,18 +11,19 @@ interface LogEntry {
 
 interface LogsPanelProps {
     logs: LogEntry[]
+    className?: string
 }
 
-export default function LogsPanel({ logs }: LogsPanelProps) {
+export default function LogsPanel({ logs, className = '' }: LogsPanelProps) {
     const getLogIcon = (level: string) => {
         switch (level) {
             case 'INCIDENT':
             case 'ERROR':
-                return <XCircle className="w-3 h-3 text-red-400" />
+                return <XCircle className="w-3 h-3 text-red-500" />
             case 'WARNING':
-                return <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                return <AlertTriangle className="w-3 h-3 text-yellow-500" />
             default:
-                return <Info className="w-3 h-3 text-blue-400" />
+                return <Info className="w-3 h-3 text-blue-500" />
         }
     }
 
@@ -30,11 +31,11 @@ export default function LogsPanel({ logs }: LogsPanelProps) {
         switch (level) {
             case 'INCIDENT':
             case 'ERROR':
-                return 'text-red-400'
+                return 'text-red-500'
             case 'WARNING':
-                return 'text-yellow-400'
+                return 'text-yellow-500'
             default:
-                return 'text-gray-300'
+                return 'text-gray-700'
         }
     }
 
@@ -43,20 +44,20 @@ export default function LogsPanel({ logs }: LogsPanelProps) {
     }
 
     return (
-        <div className="bg-gray-800 rounded-lg border border-gray-700">
-            <div className="p-4 border-b border-gray-700">
-                <h3 className="text-lg font-semibold flex items-center space-x-2">
-                    <FileText className="w-5 h-5" />
+        <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+            <div className="p-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-black flex items-center space-x-2">
+                    <FileText className="w-5 h-5 text-gray-600" />
                     <span>Live Logs</span>
-                    <span className="text-sm text-gray-400 font-normal">
+                    <span className="text-sm text-gray-500 font-normal">
                         ({logs.length} entries)
                     </span>
                 </h3>
             </div>
 
-            <div className="p-4 max-h-80 overflow-y-auto">
+            <div className="p-4 flex-1 min-h-0 overflow-y-auto">
                 {logs.length === 0 ? (
-                    <div className="text-center text-gray-400 py-8">
+                    <div className="text-center text-gray-500 py-8">
                         <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
                         <p>No logs available</p>
                     </div>
@@ -65,7 +66,7 @@ export default function LogsPanel({ logs }: LogsPanelProps) {
                         {logs.slice(-20).reverse().map((log, index) => (
                             <div
                                 key={index}
-                                className="flex items-start space-x-2 p-2 rounded hover:bg-gray-700/50 transition-colors"
+                                className="flex items-start space-x-2 p-2 rounded hover:bg-gray-50 transition-colors"
                             >
                                 <div className="flex-shrink-0 mt-0.5">
                                     {getLogIcon(log.level)}
@@ -89,19 +90,19 @@ export default function LogsPanel({ logs }: LogsPanelProps) {
                 )}
             </div>
 
-            <div className="p-3 bg-gray-900 border-t border-gray-700">
-                <div className="flex items-center justify-between text-xs text-gray-400">
+            <div className="p-3 bg-gray-50 border-t border-gray-200 rounded-b-xl">
+                <div className="flex items-center justify-between text-xs text-gray-600">
                     <div className="flex items-center space-x-4">
                         <div className="flex items-center space-x-2">
-                            <XCircle className="w-3 h-3 text-red-400" />
+                            <XCircle className="w-3 h-3 text-red-500" />
                             <span>Error</span>
                         </div>
                         <div className="flex items-center space-x-2">
-                            <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                            <AlertTriangle className="w-3 h-3 text-yellow-500" />
                             <span>Warning</span>
                         </div>
                         <div className="flex items-center space-x-2">
-                            <Info className="w-3 h-3 text-blue-400" />
+                            <Info className="w-3 h-3 text-blue-500" />
                             <span>Info</span>
                         </div>
                     </div>
@@ -14,9 +14,10 @@ interface Metrics {
 
 interface MetricsPanelProps {
     metrics: Metrics
+    className?: string
 }
 
-export default function MetricsPanel({ metrics }: MetricsPanelProps) {
+export default function MetricsPanel({ metrics, className = '' }: MetricsPanelProps) {
     const formatUptime = (seconds: number) => {
         const hours = Math.floor(seconds / 3600)
         const minutes = Math.floor((seconds % 3600) / 60)
@@ -27,56 +28,56 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'healthy':
-                return 'text-green-400'
+                return 'text-emerald-500'
             case 'degraded':
-                return 'text-yellow-400'
+                return 'text-yellow-500'
             default:
-                return 'text-gray-400'
+                return 'text-gray-500'
         }
     }
 
     const getStatusIcon = (status: string) => {
         switch (status) {
             case 'healthy':
-                return <Activity className="w-4 h-4 text-green-400" />
+                return <Activity className="w-4 h-4 text-emerald-500" />
             case 'degraded':
-                return <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                return <AlertTriangle className="w-4 h-4 text-yellow-500" />
             default:
-                return <Activity className="w-4 h-4 text-gray-400" />
+                return <Activity className="w-4 h-4 text-gray-500" />
         }
     }
 
     const getQueueStatus = (queueSize: number) => {
-        if (queueSize < 100) return { color: 'text-green-400', status: 'Normal' }
-        if (queueSize < 500) return { color: 'text-yellow-400', status: 'Building' }
-        return { color: 'text-red-400', status: 'High' }
+        if (queueSize < 100) return { color: 'text-emerald-500', status: 'Normal' }
+        if (queueSize < 500) return { color: 'text-yellow-500', status: 'Building' }
+        return { color: 'text-red-500', status: 'High' }
     }
 
     const getDelayStatus = (delay: number) => {
-        if (delay < 20) return { color: 'text-green-400', status: 'Fast' }
-        if (delay < 50) return { color: 'text-yellow-400', status: 'Slow' }
-        return { color: 'text-red-400', status: 'Very Slow' }
+        if (delay < 20) return { color: 'text-emerald-500', status: 'Fast' }
+        if (delay < 50) return { color: 'text-yellow-500', status: 'Slow' }
+        return { color: 'text-red-500', status: 'Very Slow' }
     }
 
     const queueStatus = getQueueStatus(metrics.queue_size)
     const delayStatus = getDelayStatus(metrics.processing_delay_ms)
 
     return (
-        <div className="bg-gray-800 rounded-lg border border-gray-700">
-            <div className="p-4 border-b border-gray-700">
-                <h3 className="text-lg font-semibold flex items-center space-x-2">
-                    <Database className="w-5 h-5" />
+        <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+            <div className="p-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-black flex items-center space-x-2">
+                    <Database className="w-5 h-5 text-gray-600" />
                     <span>System Metrics</span>
                 </h3>
             </div>
 
-            <div className="p-4 space-y-4">
+            <div className="p-4 space-y-3 flex-1 overflow-y-auto">
                 {/* Server Status */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
                         {getStatusIcon(metrics.server_status)}
                         <div>
-                            <p className="text-sm text-gray-400">Server Status</p>
+                            <p className="text-sm text-gray-600">Server Status</p>
                             <p className={`font-semibold ${getStatusColor(metrics.server_status)}`}>
                                 {metrics.server_status === 'healthy' ? 'Healthy' :
                                     metrics.server_status === 'degraded' ? 'Degraded' : 'Unknown'}
@@ -86,20 +87,20 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Memory Usage */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Database className="w-4 h-4 text-blue-400" />
+                        <Database className="w-4 h-4 text-blue-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Memory Usage</p>
-                            <p className="font-semibold text-blue-400">
+                            <p className="text-sm text-gray-600">Memory Usage</p>
+                            <p className="font-semibold text-blue-500">
                                 {metrics.memory_usage_mb.toFixed(1)} MB
                             </p>
                         </div>
                     </div>
                     <div className="text-right">
-                        <div className="w-16 h-2 bg-gray-600 rounded-full overflow-hidden">
+                        <div className="w-16 h-2 bg-gray-200 rounded-full overflow-hidden">
                             <div
-                                className="h-full bg-blue-400 transition-all duration-300"
+                                className="h-full bg-blue-500 transition-all duration-300"
                                 style={{ width: `${Math.min((metrics.memory_usage_mb / 100) * 100, 100)}%` }}
                             />
                         </div>
@@ -107,11 +108,11 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Queue Size */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Activity className="w-4 h-4 text-yellow-400" />
+                        <Activity className="w-4 h-4 text-yellow-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Queue Size</p>
+                            <p className="text-sm text-gray-600">Queue Size</p>
                             <p className={`font-semibold ${queueStatus.color}`}>
                                 {metrics.queue_size.toLocaleString()}
                             </p>
@@ -125,11 +126,11 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Processing Delay */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Clock className="w-4 h-4 text-purple-400" />
+                        <Clock className="w-4 h-4 text-purple-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Processing Delay</p>
+                            <p className="text-sm text-gray-600">Processing Delay</p>
                             <p className={`font-semibold ${delayStatus.color}`}>
                                 {metrics.processing_delay_ms}ms
                             </p>
@@ -143,12 +144,12 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Active Clients */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Users className="w-4 h-4 text-green-400" />
+                        <Users className="w-4 h-4 text-emerald-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Active Clients</p>
-                            <p className="font-semibold text-green-400">
+                            <p className="text-sm text-gray-600">Active Clients</p>
+                            <p className="font-semibold text-emerald-500">
                                 {metrics.active_clients}
                             </p>
                         </div>
@@ -156,12 +157,12 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Uptime */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Clock className="w-4 h-4 text-gray-400" />
+                        <Clock className="w-4 h-4 text-gray-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Uptime</p>
-                            <p className="font-semibold text-gray-300 font-mono">
+                            <p className="text-sm text-gray-600">Uptime</p>
+                            <p className="font-semibold text-gray-800 font-mono">
                                 {formatUptime(metrics.uptime_seconds)}
                             </p>
                         </div>
@@ -169,12 +170,12 @@ export default function MetricsPanel({ metrics }: MetricsPanelProps) {
                 </div>
 
                 {/* Current Scenario */}
-                <div className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg">
+                <div className="flex items-center justify-between p-3 bg-gray-50 border border-gray-100 rounded-lg">
                     <div className="flex items-center space-x-3">
-                        <Activity className="w-4 h-4 text-orange-400" />
+                        <Activity className="w-4 h-4 text-orange-500" />
                         <div>
-                            <p className="text-sm text-gray-400">Current Scenario</p>
-                            <p className="font-semibold text-orange-400">
+                            <p className="text-sm text-gray-600">Current Scenario</p>
+                            <p className="font-semibold text-orange-500">
                                 {metrics.current_scenario.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                             </p>
                         </div>
@@ -0,0 +1,66 @@
+'use client'
+
+import { GROUPING_MULTIPLIERS, getGroupingStep, type Instrument } from '@/lib/instruments'
+import { VISIBLE_DEPTH_OPTIONS } from '@/lib/orderbook'
+
+interface OrderbookDisplayControlsProps {
+  instrument: Instrument
+  groupingMultiplier: number
+  visibleDepth: number
+  onGroupingChange: (multiplier: number) => void
+  onVisibleDepthChange: (depth: number) => void
+  showDeltas: boolean
+  onShowDeltasChange: (show: boolean) => void
+}
+
+const selectClass = 'text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-1.5 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function OrderbookDisplayControls({
+  instrument,
+  groupingMultiplier,
+  visibleDepth,
+  onGroupingChange,
+  onVisibleDepthChange,
+  showDeltas,
+  onShowDeltasChange
+}: OrderbookDisplayControlsProps) {
+  return (
+    <div className="flex items-center space-x-3 text-xs text-gray-600">
+      <label className="flex items-center space-x-1">
+        <span>Group</span>
+        <select
+          value={groupingMultiplier}
+          onChange={(e) => onGroupingChange(Number(e.target.value))}
+          className={selectClass}
+        >
+          {GROUPING_MULTIPLIERS.map(multiplier => (
+            <option key={multiplier} value={multiplier}>
+              {getGroupingStep(instrument, multiplier)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center space-x-1">
+        <span>Depth</span>
+        <select
+          value={visibleDepth}
+          onChange={(e) => onVisibleDepthChange(Number(e.target.value))}
+          className={selectClass}
+        >
+          {VISIBLE_DEPTH_OPTIONS.map(depth => (
+            <option key={depth} value={depth}>{depth}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center space-x-1 cursor-pointer" title="Show the signed size change next to each updated level">
+        <input
+          type="checkbox"
+          checked={showDeltas}
+          onChange={(e) => onShowDeltasChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>Δ Size</span>
+      </label>
+    </div>
+  )
+}
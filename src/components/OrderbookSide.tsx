@@ -0,0 +1,112 @@
+'use client'
+
+import type { LevelChange, LevelDiff, PriceLevel } from '@/lib/orderbook'
+
+interface OrderbookSideProps {
+  side: 'bids' | 'asks'
+  // Visible levels, best first
+  levels: PriceLevel[]
+  diff: LevelDiff
+  showDeltas: boolean
+  priceUnit: string
+  sizeUnit: string
+  formatPrice: (price: number) => string
+  formatQuantity: (quantity: string) => string
+}
+
+interface LevelRow {
+  level: PriceLevel
+  change?: LevelChange
+  removed: boolean
+}
+
+const SIDE_STYLES = {
+  bids: { price: 'text-emerald-500', hover: 'hover:bg-emerald-50', bar: 'rgba(16, 185, 129, 0.08)' },
+  asks: { price: 'text-red-500', hover: 'hover:bg-red-50', bar: 'rgba(239, 68, 68, 0.08)' }
+}
+
+const CHANGE_STYLES: Record<LevelChange['kind'], string> = {
+  new: 'bg-blue-50 border-l-2 border-blue-400',
+  increased: 'bg-emerald-100',
+  decreased: 'bg-red-100'
+}
+
+/** Current levels plus just-removed ones that fall inside the visible price range */
+function buildRows(side: 'bids' | 'asks', levels: PriceLevel[], diff: LevelDiff): LevelRow[] {
+  const rows: LevelRow[] = levels.map(level => ({
+    level,
+    change: diff.changes.get(parseFloat(level[0])),
+    removed: false
+  }))
+
+  const worstVisible = levels.length > 0 ? parseFloat(levels[levels.length - 1][0]) : null
+  if (worstVisible === null) return rows
+
+  diff.removed
+    .filter(([price]) => side === 'bids' ? parseFloat(price) >= worstVisible : parseFloat(price) <= worstVisible)
+    .forEach(level => rows.push({ level, removed: true }))
+
+  return rows.sort((a, b) => side === 'bids'
+    ? parseFloat(b.level[0]) - parseFloat(a.level[0])
+    : parseFloat(a.level[0]) - parseFloat(b.level[0]))
+}
+
+export default function OrderbookSide({
+  side,
+  levels,
+  diff,
+  showDeltas,
+  priceUnit,
+  sizeUnit,
+  formatPrice,
+  formatQuantity
+}: OrderbookSideProps) {
+  const styles = SIDE_STYLES[side]
+  const maxSize = Math.max(0, ...levels.map(level => parseFloat(level[1])))
+  const rows = buildRows(side, levels, diff)
+  // Asks are listed worst first so both sides meet at the spread
+  const orderedRows = side === 'asks' ? rows.reverse() : rows
+
+  const formatDelta = (delta: number) => `${delta >= 0 ? '+' : '−'}${formatQuantity(String(Math.abs(delta)))}`
+
+  return (
+    <div className="space-y-1 overflow-hidden flex flex-col">
+      <div className="flex justify-between text-xs text-gray-600 font-medium border-b border-gray-200 pb-2">
+        <span>Price ({priceUnit})</span>
+        <span>Size ({sizeUnit})</span>
+      </div>
+      <div className="space-y-0.5 flex-1 overflow-y-auto">
+        {orderedRows.map(({ level, change, removed }) => {
+          const size = parseFloat(level[1])
+          const widthPercent = !removed && maxSize > 0 ? (size / maxSize) * 100 : 0
+          const rowStyle = removed ? 'opacity-40 line-through' : change ? CHANGE_STYLES[change.kind] : ''
+          const delta = removed ? -size : change?.delta
+
+          return (
+            <div
+              key={`${level[0]}${removed ? '-removed' : ''}`}
+              className={`relative flex justify-between text-sm py-1.5 px-2 rounded transition-colors duration-200 ${styles.hover} ${rowStyle}`}
+              style={{
+                backgroundImage: `linear-gradient(to right, ${styles.bar} ${widthPercent}%, transparent ${widthPercent}%)`
+              }}
+            >
+              <span className={`${styles.price} font-mono font-medium relative z-10`}>
+                {formatPrice(parseFloat(level[0]))}
+              </span>
+              <span className="flex items-center space-x-2 relative z-10">
+                {showDeltas && delta !== undefined && (
+                  <span className={`text-xs font-mono ${delta >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {formatDelta(delta)}
+                  </span>
+                )}
+                <span className="text-gray-700 font-mono">
+                  {formatQuantity(level[1])}
+                </span>
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
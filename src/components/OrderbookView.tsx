@@ -3,6 +3,8 @@
 import { useMemo } from 'react'
 import { TrendingUp, TrendingDown } from 'lucide-react'
 import { formatUTCTime } from '@/utils/datetime'
+import { aggregateLevels, DEFAULT_VISIBLE_DEPTH } from '@/lib/orderbook'
+import { DEFAULT_INSTRUMENT, formatInstrumentPrice, formatInstrumentSize, type Instrument } from '@/lib/instruments'
 
 interface OrderbookViewProps {
     bids: [string, string][]
@@ -10,9 +12,24 @@ interface OrderbookViewProps {
     midPrice: number
     spread: number
     lastUpdate?: Date
+    // Price bucket size to group levels into; 0 shows raw levels
+    groupingStep?: number
+    visibleDepth?: number
+    instrument?: Instrument
+    className?: string
 }
 
-export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate }: OrderbookViewProps) {
+export default function OrderbookView({
+    bids,
+    asks,
+    midPrice,
+    spread,
+    lastUpdate,
+    groupingStep = 0,
+    visibleDepth = DEFAULT_VISIBLE_DEPTH,
+    instrument = DEFAULT_INSTRUMENT,
+    className = ''
+}: OrderbookViewProps) {
     // Use provided lastUpdate or fallback to current time
     const displayTime = lastUpdate || new Date()
 
@@ -26,10 +43,9 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
     })
 
     const processedData = useMemo(() => {
-        // Process bids (reverse for display - highest bid first)
-        const processedBids = bids
-            .slice(0, 15) // Top 15 levels
-            .reverse()
+        // Process bids (highest bid first, so totals accumulate away from the touch)
+        const processedBids = aggregateLevels(bids, 'bids', groupingStep, instrument.price_precision, instrument.size_precision)
+            .slice(0, visibleDepth)
             .map(([price, quantity], index) => ({
                 price: parseFloat(price),
                 quantity: parseFloat(quantity),
@@ -46,8 +62,8 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
         })
 
         // Process asks
-        const processedAsks = asks
-            .slice(0, 15) // Top 15 levels
+        const processedAsks = aggregateLevels(asks, 'asks', groupingStep, instrument.price_precision, instrument.size_precision)
+            .slice(0, visibleDepth)
             .map(([price, quantity], index) => ({
                 price: parseFloat(price),
                 quantity: parseFloat(quantity),
@@ -77,45 +93,35 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
         })
 
         return { bids: processedBids, asks: processedAsks }
-    }, [bids, asks])
-
-    const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('en-US', {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2
-        }).format(price)
-    }
-
-    const formatQuantity = (quantity: number) => {
-        return new Intl.NumberFormat('en-US', {
-            minimumFractionDigits: 4,
-            maximumFractionDigits: 4
-        }).format(quantity)
-    }
+    }, [bids, asks, groupingStep, visibleDepth, instrument])
+
+    const formatPrice = (price: number) => formatInstrumentPrice(price, instrument)
+
+    const formatQuantity = (quantity: number) => formatInstrumentSize(quantity, instrument)
 
     return (
-        <div className="bg-gray-800 rounded-lg border border-gray-700">
+        <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
             {/* Header */}
-            <div className="p-4 border-b border-gray-700">
+            <div className="p-4 border-b border-gray-200">
                 <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
-                        <h3 className="text-lg font-semibold">Live Orderbook</h3>
+                        <h3 className="text-lg font-semibold text-black">Live Orderbook</h3>
                         <div className="flex items-center space-x-1">
-                            <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                            <span className="text-xs text-green-400">LIVE</span>
+                            <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
+                            <span className="text-xs text-emerald-500">LIVE</span>
                         </div>
                     </div>
                     <div className="flex items-center space-x-4 text-sm">
                         <div className="flex items-center space-x-2">
-                            <span className="text-gray-400">Mid:</span>
-                            <span className="font-mono text-yellow-400">
-                                ${formatPrice(midPrice)}
+                            <span className="text-gray-600">Mid:</span>
+                            <span className="font-mono text-gray-900">
+                                {formatPrice(midPrice)}
                             </span>
                         </div>
                         <div className="flex items-center space-x-2">
-                            <span className="text-gray-400">Spread:</span>
-                            <span className="font-mono text-red-400">
-                                ${formatPrice(spread)}
+                            <span className="text-gray-600">Spread:</span>
+                            <span className="font-mono text-gray-900">
+                                {formatPrice(spread)}
                             </span>
                         </div>
                         <div className="text-xs text-gray-500">
@@ -129,18 +135,18 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
             </div>
 
             {/* Orderbook Table */}
-            <div className="overflow-hidden">
+            <div className="flex-1 min-h-0 overflow-y-auto">
                 {/* Column Headers */}
-                <div className="grid grid-cols-2 bg-gray-900 border-b border-gray-700">
-                    <div className="p-3 border-r border-gray-700">
-                        <div className="grid grid-cols-3 text-xs text-gray-400 font-medium">
+                <div className="grid grid-cols-2 bg-gray-50 border-b border-gray-200">
+                    <div className="p-3 border-r border-gray-200">
+                        <div className="grid grid-cols-3 text-xs text-gray-600 font-medium">
                             <span>Price</span>
                             <span>Size</span>
                             <span>Total</span>
                         </div>
                     </div>
                     <div className="p-3">
-                        <div className="grid grid-cols-3 text-xs text-gray-400 font-medium">
+                        <div className="grid grid-cols-3 text-xs text-gray-600 font-medium">
                             <span>Price</span>
                             <span>Size</span>
                             <span>Total</span>
@@ -151,9 +157,9 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
                 {/* Orderbook Rows */}
                 <div className="grid grid-cols-2">
                     {/* Bids (Left Side - Green) */}
-                    <div className="border-r border-gray-700">
+                    <div className="border-r border-gray-200">
                         {processedData.bids.length === 0 ? (
-                            <div className="p-8 text-center text-gray-400">
+                            <div className="p-8 text-center text-gray-500">
                                 <TrendingUp className="w-8 h-8 mx-auto mb-2 opacity-50" />
                                 <p>Waiting for live data...</p>
                             </div>
@@ -161,22 +167,22 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
                             processedData.bids.map((bid, index) => (
                                 <div
                                     key={`bid-${index}`}
-                                    className="relative grid grid-cols-3 p-2 hover:bg-gray-700/50 transition-colors"
+                                    className="relative grid grid-cols-3 p-2 hover:bg-gray-50 transition-colors"
                                 >
                                     {/* Depth background */}
                                     <div
-                                        className="absolute inset-0 bg-green-600/10"
+                                        className="absolute inset-0 bg-emerald-500/10"
                                         style={{ width: `${bid.depth}%` }}
                                     />
 
                                     {/* Content */}
-                                    <div className="relative z-10 text-green-400 font-mono text-sm">
+                                    <div className="relative z-10 text-emerald-500 font-mono text-sm">
                                         {formatPrice(bid.price)}
                                     </div>
-                                    <div className="relative z-10 text-gray-300 font-mono text-sm">
+                                    <div className="relative z-10 text-gray-700 font-mono text-sm">
                                         {formatQuantity(bid.quantity)}
                                     </div>
-                                    <div className="relative z-10 text-gray-400 font-mono text-sm">
+                                    <div className="relative z-10 text-gray-500 font-mono text-sm">
                                         {formatQuantity(bid.total)}
                                     </div>
                                 </div>
@@ -187,7 +193,7 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
                     {/* Asks (Right Side - Red) */}
                     <div>
                         {processedData.asks.length === 0 ? (
-                            <div className="p-8 text-center text-gray-400">
+                            <div className="p-8 text-center text-gray-500">
                                 <TrendingDown className="w-8 h-8 mx-auto mb-2 opacity-50" />
                                 <p>Waiting for live data...</p>
                             </div>
@@ -195,22 +201,22 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
                             processedData.asks.map((ask, index) => (
                                 <div
                                     key={`ask-${index}`}
-                                    className="relative grid grid-cols-3 p-2 hover:bg-gray-700/50 transition-colors"
+                                    className="relative grid grid-cols-3 p-2 hover:bg-gray-50 transition-colors"
                                 >
                                     {/* Depth background */}
                                     <div
-                                        className="absolute inset-0 bg-red-600/10"
+                                        className="absolute inset-0 bg-red-500/10"
                                         style={{ width: `${ask.depth}%` }}
                                     />
 
                                     {/* Content */}
-                                    <div className="relative z-10 text-red-400 font-mono text-sm">
+                                    <div className="relative z-10 text-red-500 font-mono text-sm">
                                         {formatPrice(ask.price)}
                                     </div>
-                                    <div className="relative z-10 text-gray-300 font-mono text-sm">
+                                    <div className="relative z-10 text-gray-700 font-mono text-sm">
                                         {formatQuantity(ask.quantity)}
                                     </div>
-                                    <div className="relative z-10 text-gray-400 font-mono text-sm">
+                                    <div className="relative z-10 text-gray-500 font-mono text-sm">
                                         {formatQuantity(ask.total)}
                                     </div>
                                 </div>
@@ -221,11 +227,11 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
             </div>
 
             {/* Footer */}
-            <div className="p-3 bg-gray-900 border-t border-gray-700">
-                <div className="flex items-center justify-between text-xs text-gray-400">
+            <div className="p-3 bg-gray-50 border-t border-gray-200 rounded-b-xl">
+                <div className="flex items-center justify-between text-xs text-gray-600">
                     <div className="flex items-center space-x-4">
                         <div className="flex items-center space-x-2">
-                            <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                            <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
                             <span>Bids</span>
                         </div>
                         <div className="flex items-center space-x-2">
@@ -234,7 +240,7 @@ export default function OrderbookView({ bids, asks, midPrice, spread, lastUpdate
                         </div>
                     </div>
                     <div className="text-gray-500">
-                        Top 15 levels • Real-time updates
+                        Top {visibleDepth} levels{groupingStep > 0 ? ` • Grouped by ${groupingStep}` : ''} • Real-time updates
                     </div>
                 </div>
             </div>
@@ -13,6 +13,7 @@ interface PerformanceHistory {
 
 interface PerformanceChartProps {
     data: PerformanceHistory
+    className?: string
 }
 
 interface TooltipPayload {
@@ -27,7 +28,7 @@ interface CustomTooltipProps {
     label?: string
 }
 
-export default function PerformanceChart({ data }: PerformanceChartProps) {
+export default function PerformanceChart({ data, className = '' }: PerformanceChartProps) {
     // Transform data for Recharts
     const chartData = data.timestamps.map((timestamp, index) => ({
         time: formatUTCChartTime(timestamp),
@@ -40,13 +41,12 @@ export default function PerformanceChart({ data }: PerformanceChartProps) {
     const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
         if (active && payload && payload.length) {
             return (
-                <div className="bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg">
-                    <p className="text-gray-300 font-medium mb-2">{label}</p>
+                <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
+                    <p className="text-gray-800 font-medium mb-2">{label}</p>
                     {payload.map((entry: TooltipPayload, index: number) => (
                         <p key={index} style={{ color: entry.color }} className="text-sm">
-                            {entry.name}: {entry.value}
-                            {entry.name === 'memory' ? ' MB' :
-                                entry.name === 'queue' ? ' items' : ' ms'}
+                            {/* Series names carry their own units */}
+                            {entry.name}: {entry.value.toLocaleString('en-US', { maximumFractionDigits: 1 })}
                         </p>
                     ))}
                 </div>
@@ -56,19 +56,19 @@ export default function PerformanceChart({ data }: PerformanceChartProps) {
     }
 
     return (
-        <div className="bg-gray-800 rounded-lg border border-gray-700">
-            <div className="p-4 border-b border-gray-700">
-                <h3 className="text-lg font-semibold">Performance Trends</h3>
-                <p className="text-sm text-gray-400 mt-1">
+        <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+            <div className="p-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-black">Performance Trends</h3>
+                <p className="text-sm text-gray-600 mt-1">
                     Real-time monitoring of system performance metrics
                 </p>
             </div>
 
-            <div className="p-4">
+            <div className="p-4 flex-1 min-h-0">
                 {chartData.length === 0 ? (
-                    <div className="h-64 flex items-center justify-center text-gray-400">
+                    <div className="h-full min-h-64 flex items-center justify-center text-gray-500">
                         <div className="text-center">
-                            <div className="w-16 h-16 bg-gray-700 rounded-lg flex items-center justify-center mx-auto mb-4">
+                            <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4">
                                 <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
                                 </svg>
@@ -78,31 +78,31 @@ export default function PerformanceChart({ data }: PerformanceChartProps) {
                         </div>
                     </div>
                 ) : (
-                    <ResponsiveContainer width="100%" height={300}>
+                    <ResponsiveContainer width="100%" height="100%" minHeight={240}>
                         <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                            <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
                             <XAxis
                                 dataKey="time"
-                                stroke="#9CA3AF"
+                                stroke="#6B7280"
                                 fontSize={12}
-                                tick={{ fill: '#9CA3AF' }}
+                                tick={{ fill: '#6B7280' }}
                             />
                             <YAxis
-                                stroke="#9CA3AF"
+                                stroke="#6B7280"
                                 fontSize={12}
-                                tick={{ fill: '#9CA3AF' }}
+                                tick={{ fill: '#6B7280' }}
                                 yAxisId="left"
                             />
                             <YAxis
-                                stroke="#9CA3AF"
+                                stroke="#6B7280"
                                 fontSize={12}
-                                tick={{ fill: '#9CA3AF' }}
+                                tick={{ fill: '#6B7280' }}
                                 yAxisId="right"
                                 orientation="right"
                             />
                             <Tooltip content={<CustomTooltip />} />
                             <Legend
-                                wrapperStyle={{ color: '#D1D5DB' }}
+                                wrapperStyle={{ color: '#374151' }}
                                 iconType="line"
                             />
                             <Line
@@ -132,13 +132,22 @@ export default function PerformanceChart({ data }: PerformanceChartProps) {
                                 yAxisId="right"
                                 name="Processing Delay (ms)"
                             />
+                            <Line
+                                type="monotone"
+                                dataKey="message_rate"
+                                stroke="#10B981"
+                                strokeWidth={2}
+                                dot={false}
+                                yAxisId="right"
+                                name="Message Rate (msg/s)"
+                            />
                         </LineChart>
                     </ResponsiveContainer>
                 )}
             </div>
 
-            <div className="p-3 bg-gray-900 border-t border-gray-700">
-                <div className="flex items-center justify-between text-xs text-gray-400">
+            <div className="p-3 bg-gray-50 border-t border-gray-200 rounded-b-xl">
+                <div className="flex items-center justify-between text-xs text-gray-600">
                     <div className="flex items-center space-x-4">
                         <div className="flex items-center space-x-2">
                             <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
@@ -152,6 +161,10 @@ export default function PerformanceChart({ data }: PerformanceChartProps) {
                             <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
                             <span>Processing Delay</span>
                         </div>
+                        <div className="flex items-center space-x-2">
+                            <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
+                            <span>Message Rate</span>
+                        </div>
                     </div>
                     <span>Real-time updates • Last {chartData.length} data points</span>
                 </div>
@@ -0,0 +1,176 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ResponsiveContainer } from 'recharts'
+import { LineChart as LineChartIcon } from 'lucide-react'
+import {
+  PRICE_HISTORY_WINDOWS,
+  downsample,
+  samplesInWindow,
+  stalenessSpans,
+  type PriceSample,
+  type StalenessSpan
+} from '@/lib/priceHistory'
+import { formatInstrumentPrice, type Instrument } from '@/lib/instruments'
+import { STALENESS_LEVEL_STYLES } from '@/lib/stalenessPolicy'
+import { formatUTCChartTime } from '@/utils/datetime'
+
+interface PriceHistoryChartProps {
+  samples: PriceSample[]
+  instrument: Instrument
+  className?: string
+}
+
+interface CustomTooltipProps {
+  active?: boolean
+  payload?: { payload: PriceSample }[]
+}
+
+// Enough points for a smooth line without making recharts crawl on the 15m window
+const MAX_CHART_POINTS = 600
+
+const SERIES_COLORS = {
+  mid: '#3B82F6',
+  best_bid: '#10B981',
+  best_ask: '#EF4444',
+  spread: '#6B7280'
+}
+
+const STALENESS_FILLS: Record<StalenessSpan['level'], string> = {
+  warn: '#F59E0B',
+  degrade: '#EF4444',
+  halt: '#B91C1C'
+}
+
+export default function PriceHistoryChart({ samples, instrument, className = '' }: PriceHistoryChartProps) {
+  const [windowMs, setWindowMs] = useState(PRICE_HISTORY_WINDOWS[0].ms)
+
+  const { points, spans, domain } = useMemo(() => {
+    const latest = samples.length > 0 ? samples[samples.length - 1].timestamp : Date.now()
+    const visible = samplesInWindow(samples, windowMs, latest)
+    return {
+      points: downsample(visible, MAX_CHART_POINTS),
+      spans: stalenessSpans(visible),
+      domain: [latest - windowMs, latest]
+    }
+  }, [samples, windowMs])
+
+  const formatPrice = (price: number) => price.toFixed(instrument.price_precision)
+
+  const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
+    if (!active || !payload || payload.length === 0) return null
+
+    const sample = payload[0].payload
+    const staleness = STALENESS_LEVEL_STYLES[sample.staleness_level]
+
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
+        <p className="text-gray-800 font-medium mb-1">{formatUTCChartTime(new Date(sample.timestamp))}</p>
+        <p className="text-sm" style={{ color: SERIES_COLORS.mid }}>Mid: {formatInstrumentPrice(sample.mid, instrument)}</p>
+        <p className="text-sm" style={{ color: SERIES_COLORS.best_bid }}>Bid: {formatInstrumentPrice(sample.best_bid, instrument)}</p>
+        <p className="text-sm" style={{ color: SERIES_COLORS.best_ask }}>Ask: {formatInstrumentPrice(sample.best_ask, instrument)}</p>
+        <p className="text-sm" style={{ color: SERIES_COLORS.spread }}>Spread: {formatInstrumentPrice(sample.spread, instrument)}</p>
+        <p className={`text-xs font-medium mt-1 ${staleness.text}`}>{staleness.label}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-xl shadow-sm flex flex-col ${className}`}>
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <h3 className="text-lg font-semibold text-black">Price History</h3>
+            <div className="flex items-center rounded-md border border-gray-200 overflow-hidden text-xs">
+              {PRICE_HISTORY_WINDOWS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setWindowMs(option.ms)}
+                  className={`px-2 py-1 font-medium transition-colors ${windowMs === option.ms
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-600 hover:bg-gray-50'
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center space-x-4 text-xs text-gray-600">
+            {([['mid', 'Mid'], ['best_bid', 'Best Bid'], ['best_ask', 'Best Ask'], ['spread', 'Spread']] as const).map(([key, label]) => (
+              <div key={key} className="flex items-center space-x-2">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: SERIES_COLORS[key] }}></div>
+                <span>{label}</span>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 rounded-sm opacity-30" style={{ backgroundColor: STALENESS_FILLS.degrade }}></div>
+              <span>Stale</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-1 flex-1 min-h-0">
+        {points.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            <div className="text-center">
+              <LineChartIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p className="text-sm">Waiting for price data...</p>
+            </div>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 10, right: 15, left: 15, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={domain}
+                stroke="#6B7280"
+                fontSize={11}
+                tick={{ fill: '#6B7280' }}
+                tickFormatter={(timestamp: number) => formatUTCChartTime(new Date(timestamp))}
+              />
+              <YAxis
+                yAxisId="price"
+                domain={['auto', 'auto']}
+                stroke="#6B7280"
+                fontSize={11}
+                tick={{ fill: '#6B7280' }}
+                tickFormatter={formatPrice}
+                width={80}
+              />
+              <YAxis
+                yAxisId="spread"
+                orientation="right"
+                domain={[0, 'auto']}
+                stroke="#6B7280"
+                fontSize={11}
+                tick={{ fill: '#6B7280' }}
+                tickFormatter={formatPrice}
+                width={60}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              {spans.map(span => (
+                <ReferenceArea
+                  key={`${span.start}-${span.level}`}
+                  yAxisId="price"
+                  x1={span.start}
+                  x2={span.end}
+                  fill={STALENESS_FILLS[span.level]}
+                  fillOpacity={0.15}
+                  ifOverflow="hidden"
+                />
+              ))}
+              <Line yAxisId="price" type="stepAfter" dataKey="best_bid" name="Best Bid" stroke={SERIES_COLORS.best_bid} strokeWidth={1} dot={false} isAnimationActive={false} />
+              <Line yAxisId="price" type="stepAfter" dataKey="best_ask" name="Best Ask" stroke={SERIES_COLORS.best_ask} strokeWidth={1} dot={false} isAnimationActive={false} />
+              <Line yAxisId="price" type="linear" dataKey="mid" name="Mid" stroke={SERIES_COLORS.mid} strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line yAxisId="spread" type="stepAfter" dataKey="spread" name="Spread" stroke={SERIES_COLORS.spread} strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  )
+}
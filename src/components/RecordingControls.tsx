@@ -0,0 +1,143 @@
+'use client'
+
+import { useRef } from 'react'
+import { Circle, Download, Upload, Play, Pause, SkipForward, RotateCcw, X } from 'lucide-react'
+import type { ReplayState } from '@/lib/transport/ReplayTransport'
+
+interface RecordingControlsProps {
+  isRecording: boolean
+  recordedCount: number
+  replayState: ReplayState | null
+  onStartRecording: () => void
+  onStopRecording: () => void
+  onExport: () => void
+  onLoadReplay: (file: File) => void
+  onPlay: () => void
+  onPause: () => void
+  onStep: () => void
+  onSpeedChange: (speed: number) => void
+  onRestart: () => void
+  onExitReplay: () => void
+}
+
+const REPLAY_SPEEDS = [1, 2, 10]
+
+const buttonClass = 'flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function RecordingControls({
+  isRecording,
+  recordedCount,
+  replayState,
+  onStartRecording,
+  onStopRecording,
+  onExport,
+  onLoadReplay,
+  onPlay,
+  onPause,
+  onStep,
+  onSpeedChange,
+  onRestart,
+  onExitReplay
+}: RecordingControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  if (replayState) {
+    const finished = replayState.position >= replayState.total
+
+    return (
+      <div className="flex items-center justify-between px-4 py-2 mb-4 bg-blue-50 border border-blue-200 rounded-xl text-sm text-blue-800 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <span className="font-medium">REPLAY</span>
+          <span>
+            {replayState.position} / {replayState.total} messages
+            {finished ? ' • finished' : replayState.playing ? ' • playing' : ' • paused'}
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {replayState.playing ? (
+            <button onClick={onPause} className={buttonClass}>
+              <Pause className="w-3 h-3" />
+              <span>Pause</span>
+            </button>
+          ) : (
+            <button onClick={onPlay} disabled={finished} className={buttonClass}>
+              <Play className="w-3 h-3" />
+              <span>Play</span>
+            </button>
+          )}
+          <button onClick={onStep} disabled={finished} className={buttonClass}>
+            <SkipForward className="w-3 h-3" />
+            <span>Step</span>
+          </button>
+          <button onClick={onRestart} disabled={replayState.position === 0} className={buttonClass}>
+            <RotateCcw className="w-3 h-3" />
+            <span>Restart</span>
+          </button>
+          <div className="flex items-center space-x-1">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => onSpeedChange(speed)}
+                className={`px-2 py-1 text-xs font-medium rounded-md border ${replayState.speed === speed
+                  ? 'text-white bg-blue-600 border-blue-600'
+                  : 'text-gray-700 bg-white border-gray-200 hover:bg-gray-100'
+                  }`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+          <button onClick={onExitReplay} className={buttonClass}>
+            <X className="w-3 h-3" />
+            <span>Exit replay</span>
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-between px-4 py-2 mb-4 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-600 flex-shrink-0">
+      <div className="flex items-center space-x-3">
+        <Circle className={`w-3 h-3 ${isRecording ? 'text-red-500 fill-red-500 animate-pulse' : 'text-gray-400'}`} />
+        <span>
+          {isRecording ? `Recording • ${recordedCount} messages` : recordedCount > 0 ? `Recorded ${recordedCount} messages` : 'Not recording'}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        {isRecording ? (
+          <button onClick={onStopRecording} className={buttonClass}>
+            <Circle className="w-3 h-3" />
+            <span>Stop recording</span>
+          </button>
+        ) : (
+          <button onClick={onStartRecording} className={buttonClass}>
+            <Circle className="w-3 h-3 text-red-500" />
+            <span>Record</span>
+          </button>
+        )}
+        <button onClick={onExport} disabled={isRecording || recordedCount === 0} className={buttonClass}>
+          <Download className="w-3 h-3" />
+          <span>Export NDJSON</span>
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" />
+          <span>Replay file</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onLoadReplay(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+    </div>
+  )
+}
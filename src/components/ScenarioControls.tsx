@@ -2,34 +2,34 @@
 
 import { useState, useEffect } from 'react'
 import { Play, Square, Settings } from 'lucide-react'
-import { buildApiUrl } from '@/config/api'
-
-const scenarios = [
-  { value: 'stable-mode', label: 'Stable Mode', description: 'Normal Operation' },
-  { value: 'burst-mode', label: 'Burst Mode', description: 'High-Frequency Spike' }
-]
+import { apiClient, describeApiError } from '@/lib/apiClient'
+import { useScenarioProfiles } from '@/hooks/useScenarioProfiles'
+import { formatProfileName } from '@/lib/profiles'
 
 export default function ScenarioControls() {
   const [selectedScenario, setSelectedScenario] = useState('stable-mode')
   const [isSimulationRunning, setIsSimulationRunning] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [isStopped, setIsStopped] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { profiles } = useScenarioProfiles()
 
   // Check simulation status on component mount and periodically
   useEffect(() => {
+    const controller = new AbortController()
+
     const checkSimulationStatus = async () => {
       try {
-        const response = await fetch(buildApiUrl('/status/publisher'))
-        if (response.ok) {
-          const status = await response.json()
-          // Update simulation status based on server response
-          if (status.publisher && status.publisher.is_running !== undefined) {
-            setIsSimulationRunning(status.publisher.is_running)
-          }
-          console.log('Publisher status:', status)
+        const status = await apiClient.getPublisherStatus(controller.signal)
+        // Update simulation status based on server response
+        if (status.publisher && status.publisher.is_running !== undefined) {
+          setIsSimulationRunning(status.publisher.is_running)
         }
+        console.log('Publisher status:', status)
       } catch (error) {
+        if (controller.signal.aborted) return
         console.error('Error checking publisher status:', error)
+        setError(describeApiError(error))
       }
     }
 
@@ -38,7 +38,10 @@ export default function ScenarioControls() {
     // Check status every 5 seconds
     const interval = setInterval(checkSimulationStatus, 5000)
 
-    return () => clearInterval(interval)
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
   }, [])
 
   const switchScenario = async (scenario: string) => {
@@ -51,23 +54,13 @@ export default function ScenarioControls() {
     setIsLoading(true)
     try {
       console.log(`Attempting to switch to scenario: ${scenario}`)
-      const response = await fetch(buildApiUrl(`/config/profile/${scenario}`), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      })
-
-      if (response.ok) {
-        const result = await response.json()
-        setSelectedScenario(scenario)
-        console.log(`Successfully switched to scenario: ${scenario}`, result)
-      } else {
-        const errorText = await response.text()
-        console.error(`Failed to switch scenario: ${response.status} - ${errorText}`)
-      }
+      const result = await apiClient.switchProfile(scenario)
+      setSelectedScenario(scenario)
+      setError(null)
+      console.log(`Successfully switched to scenario: ${scenario}`, result)
     } catch (error) {
       console.error('Error switching scenario:', error)
+      setError(describeApiError(error))
     } finally {
       setIsLoading(false)
     }
@@ -77,19 +70,14 @@ export default function ScenarioControls() {
     setIsLoading(true)
     try {
       console.log('Attempting to start simulation...')
-      const response = await fetch(buildApiUrl('/start'), {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        setIsSimulationRunning(true)
-        setIsStopped(false)
-        console.log('Simulation started successfully')
-      } else {
-        console.error('Failed to start simulation')
-      }
+      await apiClient.startPublisher()
+      setIsSimulationRunning(true)
+      setIsStopped(false)
+      setError(null)
+      console.log('Simulation started successfully')
     } catch (error) {
       console.error('Error starting simulation:', error)
+      setError(describeApiError(error))
     } finally {
       setIsLoading(false)
     }
@@ -99,19 +87,14 @@ export default function ScenarioControls() {
     setIsLoading(true)
     try {
       console.log('Attempting to stop simulation and all processes...')
-      const response = await fetch(buildApiUrl('/stop'), {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        setIsSimulationRunning(false)
-        setIsStopped(true)
-        console.log('All processes stopped successfully')
-      } else {
-        console.error('Failed to stop all processes')
-      }
+      await apiClient.stopPublisher()
+      setIsSimulationRunning(false)
+      setIsStopped(true)
+      setError(null)
+      console.log('All processes stopped successfully')
     } catch (error) {
       console.error('Error stopping all processes:', error)
+      setError(describeApiError(error))
     } finally {
       setIsLoading(false)
     }
@@ -139,14 +122,14 @@ export default function ScenarioControls() {
             className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
             title={isStopped || !isSimulationRunning ? "Scenario switching disabled when stopped" : ""}
           >
-            {scenarios.map((scenario) => (
-              <option key={scenario.value} value={scenario.value}>
-                {scenario.label}
+            {profiles.map((profile) => (
+              <option key={profile.name} value={profile.name}>
+                {formatProfileName(profile.name)}
               </option>
             ))}
           </select>
           <p className="text-xs text-gray-400 mt-1">
-            {scenarios.find(s => s.value === selectedScenario)?.description}
+            {profiles.find(profile => profile.name === selectedScenario)?.description}
           </p>
         </div>
 
@@ -179,24 +162,28 @@ export default function ScenarioControls() {
           </span>
         </div>
 
+        {error && (
+          <p className="text-xs text-red-400 break-words">{error}</p>
+        )}
+
         {/* Quick Scenario Buttons */}
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
             Quick Switch
           </label>
           <div className="grid grid-cols-2 gap-2">
-            {scenarios.map((scenario) => (
+            {profiles.map((profile) => (
               <button
-                key={scenario.value}
-                onClick={() => switchScenario(scenario.value)}
+                key={profile.name}
+                onClick={() => switchScenario(profile.name)}
                 disabled={isLoading || isStopped || !isSimulationRunning}
-                className={`p-2 rounded-lg text-xs font-medium transition-colors ${selectedScenario === scenario.value
+                className={`p-2 rounded-lg text-xs font-medium transition-colors ${selectedScenario === profile.name
                   ? 'bg-blue-600 text-white'
                   : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
                   } disabled:opacity-50`}
                 title={isStopped || !isSimulationRunning ? "Scenario switching disabled when stopped" : ""}
               >
-                {scenario.label}
+                {formatProfileName(profile.name)}
               </button>
             ))}
           </div>
@@ -0,0 +1,76 @@
+'use client'
+
+import { RefreshCw } from 'lucide-react'
+import {
+  formatProfileName,
+  formatProfileParameters,
+  getProfileAccent,
+  type ScenarioProfile
+} from '@/lib/profiles'
+
+interface ScenarioSelectorProps {
+  profiles: ScenarioProfile[]
+  currentScenario: string
+  disabled: boolean
+  isLoading: boolean
+  error: string | null
+  onSelect: (name: string) => void
+  onReload: () => void
+}
+
+export default function ScenarioSelector({
+  profiles,
+  currentScenario,
+  disabled,
+  isLoading,
+  error,
+  onSelect,
+  onReload
+}: ScenarioSelectorProps) {
+  const current = profiles.find(profile => profile.name === currentScenario)
+  const accent = getProfileAccent(profiles, currentScenario)
+  // The server may report a scenario that isn't in the profile list; still show it
+  const options = current || !currentScenario
+    ? profiles
+    : [...profiles, { name: currentScenario, description: '', parameters: {} }]
+
+  return (
+    <div className="flex items-center space-x-3">
+      <span className="text-sm font-medium text-black">Mode:</span>
+
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full ${disabled ? 'bg-gray-300' : accent.dot}`}></div>
+        <select
+          value={currentScenario}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled || options.length === 0}
+          className="text-sm font-medium text-black bg-white border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          title={current ? formatProfileParameters(current.parameters) : 'Switch scenario profile'}
+        >
+          {options.length === 0 && <option value="">{isLoading ? 'Loading…' : 'No profiles'}</option>}
+          {options.map(profile => (
+            <option key={profile.name} value={profile.name}>
+              {formatProfileName(profile.name)}
+            </option>
+          ))}
+        </select>
+
+        {error && (
+          <button
+            onClick={onReload}
+            className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-700"
+            title={`Failed to load profiles: ${error}`}
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Retry</span>
+          </button>
+        )}
+      </div>
+
+      {/* Description Badge */}
+      <div className={`px-2 py-1 rounded-md text-xs font-medium ${disabled ? 'text-gray-500 bg-gray-100' : accent.badge}`}>
+        {disabled ? 'Disabled' : current?.description || formatProfileName(currentScenario)}
+      </div>
+    </div>
+  )
+}
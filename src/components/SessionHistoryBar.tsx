@@ -0,0 +1,54 @@
+'use client'
+
+import { History, Trash2 } from 'lucide-react'
+import { formatUTCTime } from '@/utils/datetime'
+
+interface RestoredSession {
+  restored_at: string
+  incidents: number
+  logs: number
+  samples: number
+}
+
+interface SessionHistoryBarProps {
+  enabled: boolean
+  restoredSession: RestoredSession | null
+  onToggle: (enabled: boolean) => void
+  onClear: () => void
+}
+
+export default function SessionHistoryBar({ enabled, restoredSession, onToggle, onClear }: SessionHistoryBarProps) {
+  return (
+    <div className="flex items-center justify-between px-4 py-2 mb-4 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-600 flex-shrink-0">
+      <div className="flex items-center space-x-3">
+        <History className="w-4 h-4 text-gray-500" />
+        {restoredSession ? (
+          <span>
+            Restored from previous session at {formatUTCTime(new Date(restoredSession.restored_at))} •{' '}
+            {restoredSession.incidents} incidents, {restoredSession.logs} logs, {restoredSession.samples} samples
+          </span>
+        ) : (
+          <span>{enabled ? 'Session history is saved in this browser' : 'Session history is not saved'}</span>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onToggle(e.target.checked)}
+          />
+          <span>Persist history</span>
+        </label>
+        <button
+          onClick={onClear}
+          className="flex items-center space-x-1 px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-200 hover:bg-gray-100"
+        >
+          <Trash2 className="w-3 h-3" />
+          <span>Clear history</span>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -5,9 +5,26 @@
  * Update these URLs based on your deployment environment.
  */
 
+import type { StalenessConfig } from '@/lib/stalenessPolicy';
+import type { PersistenceConfig } from '@/lib/persistence';
+import type { MockConfig } from '@/lib/mockPublisher';
+import type { AlertsConfig } from '@/lib/alerts';
+import type { IncidentSinkConfig } from '@/lib/incidentSinks';
+import type { TrackdownConfig } from '@/lib/trackdown';
+import type { RecoveryConfig } from '@/lib/recovery';
+
 // Type definition for window configuration
 interface AppConfig {
   SERVER_URL?: string;
+  TRANSPORT?: 'sse' | 'websocket' | 'mock';
+  SYMBOL?: string;
+  STALENESS?: StalenessConfig;
+  PERSISTENCE?: PersistenceConfig;
+  MOCK?: MockConfig;
+  ALERTS?: AlertsConfig;
+  INCIDENT_SINKS?: IncidentSinkConfig[];
+  TRACKDOWN?: TrackdownConfig;
+  RECOVERY?: RecoveryConfig;
 }
 
 declare global {
@@ -34,8 +51,8 @@ const getServerUrl = (): string => {
 
 const getWebSocketUrl = (): string => {
   const serverUrl = getServerUrl();
-  // Convert HTTP URL to WebSocket URL
-  return serverUrl.replace(/^https?/, 'wss');
+  // Convert HTTP URL to WebSocket URL (http -> ws, https -> wss)
+  return serverUrl.replace(/^http/, 'ws');
 };
 
 const getSSEUrl = (): string => {
@@ -44,6 +61,20 @@ const getSSEUrl = (): string => {
   return serverUrl;
 };
 
+// Which transport the dashboard uses for live market data
+const getTransportType = (): 'sse' | 'websocket' | 'mock' => {
+  const envTransport = process.env.NEXT_PUBLIC_TRANSPORT;
+  if (envTransport === 'websocket' || envTransport === 'sse' || envTransport === 'mock') {
+    return envTransport;
+  }
+
+  if (typeof window !== 'undefined' && window.APP_CONFIG?.TRANSPORT) {
+    return window.APP_CONFIG.TRANSPORT;
+  }
+
+  return 'sse';
+};
+
 export const API_CONFIG = {
   // Base server URL (HTTP)
   SERVER_URL: getServerUrl(),
@@ -53,6 +84,9 @@ export const API_CONFIG = {
   
   // SSE URL
   SSE_URL: getSSEUrl(),
+
+  // Live market data transport
+  TRANSPORT: getTransportType(),
   
   // API endpoints
   ENDPOINTS: {
@@ -64,6 +98,8 @@ export const API_CONFIG = {
     PROFILES: '/config/profiles',
     PROFILE_SWITCH: '/config/profile',
     PUBLISHER_STATUS: '/status/publisher',
+    ORDERBOOK_SNAPSHOT: '/orderbook/snapshot',
+    INSTRUMENTS: '/instruments',
     WEBSOCKET: '/ws',
     SSE: '/events'
   }
@@ -74,12 +110,17 @@ export const buildApiUrl = (endpoint: string): string => {
   return `${API_CONFIG.SERVER_URL}${endpoint}`;
 };
 
-export const buildWebSocketUrl = (): string => {
-  return `${API_CONFIG.WS_URL}${API_CONFIG.ENDPOINTS.WEBSOCKET}`;
+// Streams are subscribed per symbol via a query parameter
+const symbolQuery = (symbol?: string): string => {
+  return symbol ? `?symbol=${encodeURIComponent(symbol)}` : '';
+};
+
+export const buildWebSocketUrl = (symbol?: string): string => {
+  return `${API_CONFIG.WS_URL}${API_CONFIG.ENDPOINTS.WEBSOCKET}${symbolQuery(symbol)}`;
 };
 
-export const buildSSEUrl = (): string => {
-  return `${API_CONFIG.SSE_URL}${API_CONFIG.ENDPOINTS.SSE}`;
+export const buildSSEUrl = (symbol?: string): string => {
+  return `${API_CONFIG.SSE_URL}${API_CONFIG.ENDPOINTS.SSE}${symbolQuery(symbol)}`;
 };
 
 // Export individual URLs for convenience
@@ -90,5 +131,6 @@ export const SSE_URL = buildSSEUrl();
 console.log('🔧 API Configuration loaded:', {
   SERVER_URL: API_CONFIG.SERVER_URL,
   WS_URL: API_CONFIG.WS_URL,
-  SSE_URL: API_CONFIG.SSE_URL
+  SSE_URL: API_CONFIG.SSE_URL,
+  TRANSPORT: API_CONFIG.TRANSPORT
 });
\ No newline at end of file
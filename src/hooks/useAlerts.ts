@@ -0,0 +1,139 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useDashboardState } from './useDashboardState'
+import {
+  AlertRateLimiter,
+  getAlertsConfig,
+  getIncidentSeverity,
+  isNotificationSupported,
+  loadAlertPreferences,
+  playAlertSound,
+  saveAlertPreferences,
+  showNotification,
+  type Alert,
+  type AlertPreferences
+} from '@/lib/alerts'
+
+// Incidents last seen longer ago than this (e.g. restored from a previous session) don't alert
+const ALERT_FRESHNESS_MS = 60_000
+
+export function useAlerts(dashboardState: ReturnType<typeof useDashboardState>) {
+  const { incidents } = dashboardState.state
+  const [preferences, setPreferences] = useState<AlertPreferences>({ notifications: false, sound: false })
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default')
+  // Nothing is written back until the saved preferences have been read
+  const [isLoaded, setIsLoaded] = useState(false)
+  const preferencesRef = useRef(preferences)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const rateLimiterRef = useRef<AlertRateLimiter | null>(null)
+  // Occurrence count per incident id when it last alerted
+  const alertedRef = useRef(new Map<string, number>())
+
+  useEffect(() => {
+    preferencesRef.current = preferences
+  }, [preferences])
+
+  useEffect(() => {
+    setPreferences(loadAlertPreferences())
+    setIsLoaded(true)
+    setPermission(isNotificationSupported() ? Notification.permission : 'unsupported')
+    rateLimiterRef.current = new AlertRateLimiter(getAlertsConfig().min_interval_ms)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) saveAlertPreferences(preferences)
+  }, [isLoaded, preferences])
+
+  // Browsers only start audio after a user gesture, so a sound preference restored on load waits for the first click
+  useEffect(() => {
+    if (!preferences.sound) return
+
+    const unlock = () => {
+      audioContextRef.current ??= new AudioContext()
+      audioContextRef.current.resume().catch(() => {})
+    }
+    document.addEventListener('pointerdown', unlock, { once: true })
+    return () => document.removeEventListener('pointerdown', unlock)
+  }, [preferences.sound])
+
+  const updatePreferences = useCallback((updates: Partial<AlertPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...updates }))
+  }, [])
+
+  const toggleNotifications = useCallback(async () => {
+    if (preferencesRef.current.notifications) {
+      updatePreferences({ notifications: false })
+      return
+    }
+    if (!isNotificationSupported()) return
+
+    const result = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission
+    setPermission(result)
+    if (result === 'granted') updatePreferences({ notifications: true })
+  }, [updatePreferences])
+
+  const toggleSound = useCallback(() => {
+    const enabling = !preferencesRef.current.sound
+    if (enabling) {
+      // Created inside the click handler so the browser lets it play
+      audioContextRef.current ??= new AudioContext()
+      audioContextRef.current.resume().catch(() => {})
+    }
+    updatePreferences({ sound: enabling })
+  }, [updatePreferences])
+
+  const raiseAlert = useCallback((alert: Alert) => {
+    const { notifications, sound } = preferencesRef.current
+    if (!notifications && !sound) return
+    if (rateLimiterRef.current && !rateLimiterRef.current.tryAcquire(alert.key)) {
+      console.log(`🔕 Alert rate limited: ${alert.key}`)
+      return
+    }
+
+    console.log(`🔔 ${alert.severity} alert: ${alert.title}`)
+
+    // The in-page banner covers a visible, focused tab
+    if (notifications && (document.hidden || !document.hasFocus())) {
+      showNotification(alert)
+    }
+
+    const config = getAlertsConfig()
+    const alertSound = config.sounds[alert.severity]
+    if (sound && alertSound && audioContextRef.current) {
+      playAlertSound(audioContextRef.current, alertSound, config.volume)
+    }
+  }, [])
+
+  // New incidents and repeats of open ones alert; acknowledged and resolved ones stay quiet
+  useEffect(() => {
+    const now = Date.now()
+    incidents.forEach(incident => {
+      const alertedOccurrences = alertedRef.current.get(incident.id)
+      if (alertedOccurrences !== undefined && alertedOccurrences >= incident.occurrences) return
+      alertedRef.current.set(incident.id, incident.occurrences)
+
+      if (incident.status !== 'open') return
+      if (now - Date.parse(incident.last_seen) > ALERT_FRESHNESS_MS) return
+
+      raiseAlert({
+        severity: getIncidentSeverity(incident),
+        title: incident.type.replace(/_/g, ' '),
+        body: incident.occurrences > 1
+          ? `${incident.details} (${incident.occurrences} occurrences)`
+          : incident.details,
+        key: `incident:${incident.id}`
+      })
+    })
+  }, [incidents, raiseAlert])
+
+  return {
+    preferences,
+    permission,
+    toggleNotifications,
+    toggleSound,
+    raiseAlert
+  }
+}
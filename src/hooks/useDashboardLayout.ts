@@ -0,0 +1,88 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  BUILTIN_PRESETS,
+  DEFAULT_LAYOUT,
+  loadLayout,
+  loadPresets,
+  movePanel,
+  resizePanel,
+  saveLayout,
+  savePresets,
+  setPanelHidden,
+  type DashboardLayout,
+  type LayoutPreset,
+  type PanelId
+} from '@/lib/panels'
+
+export function useDashboardLayout() {
+  const [layout, setLayout] = useState<DashboardLayout>(DEFAULT_LAYOUT)
+  const [presets, setPresets] = useState<LayoutPreset[]>(BUILTIN_PRESETS)
+  const [isEditing, setIsEditing] = useState(false)
+  // Nothing is written back until the saved layouts have been read
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // Read saved layouts after mount so the server render matches the first client render
+  useEffect(() => {
+    setLayout(loadLayout())
+    setPresets(loadPresets())
+    setIsLoaded(true)
+  }, [])
+
+  // Persist from effects; state updaters must stay pure
+  useEffect(() => {
+    if (isLoaded) saveLayout(layout)
+  }, [isLoaded, layout])
+
+  useEffect(() => {
+    if (isLoaded) savePresets(presets)
+  }, [isLoaded, presets])
+
+  const updateLayout = useCallback((update: (prev: DashboardLayout) => DashboardLayout) => {
+    setLayout(update)
+  }, [])
+
+  const move = useCallback((id: PanelId, targetId: PanelId) => {
+    updateLayout(prev => movePanel(prev, id, targetId))
+  }, [updateLayout])
+
+  const resize = useCallback((id: PanelId, colSpan: number, rowSpan: number) => {
+    updateLayout(prev => resizePanel(prev, id, colSpan, rowSpan))
+  }, [updateLayout])
+
+  const setHidden = useCallback((id: PanelId, hidden: boolean) => {
+    updateLayout(prev => setPanelHidden(prev, id, hidden))
+  }, [updateLayout])
+
+  const applyPreset = useCallback((name: string) => {
+    const preset = presets.find(candidate => candidate.name === name)
+    if (preset) updateLayout(() => preset.layout)
+  }, [presets, updateLayout])
+
+  /** Save the current layout under `name`, replacing a custom preset of the same name */
+  const savePreset = useCallback((name: string): boolean => {
+    const trimmed = name.trim()
+    if (!trimmed || BUILTIN_PRESETS.some(preset => preset.name === trimmed)) return false
+
+    setPresets(prev => [...prev.filter(preset => preset.name !== trimmed), { name: trimmed, layout }])
+    return true
+  }, [layout])
+
+  const deletePreset = useCallback((name: string) => {
+    setPresets(prev => prev.filter(preset => preset.builtin || preset.name !== name))
+  }, [])
+
+  return {
+    layout,
+    presets,
+    isEditing,
+    setIsEditing,
+    move,
+    resize,
+    setHidden,
+    applyPreset,
+    savePreset,
+    deletePreset
+  }
+}
@@ -1,7 +1,23 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { generateSampleMetrics } from '@/lib/sampleData'
+import { checkSequence, resyncBackoffMs } from '@/lib/sequence'
+import { LocalOrderbook, type PriceLevel } from '@/lib/orderbook'
+import { mergeIncident, updateIncident, type Incident, type NewIncident } from '@/lib/incidents'
+import type { PersistedSession } from '@/lib/persistence'
+import { formatIssues, type ProtocolIssue } from '@/lib/transport/schemas'
+import { DEFAULT_SYMBOL } from '@/lib/instruments'
+import { appendPriceSample, samplePrices, type PriceSample } from '@/lib/priceHistory'
+import { messageRate, RATE_WINDOW_MS } from '@/lib/throughput'
+import {
+    appendSample,
+    evaluateStaleness,
+    getStalenessPolicy,
+    isMoreSevere,
+    type StalenessLevel,
+    type StalenessSample
+} from '@/lib/stalenessPolicy'
 
 interface OrderbookData {
     bids: [string, string][]
@@ -15,6 +31,20 @@ interface OrderbookData {
     processing_delay_ms?: number
 }
 
+interface OrderbookDelta {
+    symbol?: string
+    bids: PriceLevel[]
+    asks: PriceLevel[]
+    sequence_id: number
+    timestamp: string | null
+    checksum?: number
+    mid_price?: number
+    spread?: number
+    data_age_ms?: number
+    is_stale?: boolean
+    processing_delay_ms?: number
+}
+
 interface Metrics {
     memory_usage_mb: number
     queue_size: number
@@ -26,14 +56,6 @@ interface Metrics {
     total_events_received?: number
 }
 
-interface Incident {
-    timestamp: string
-    type: string
-    details: string
-    scenario: string
-    uptime: number
-}
-
 interface LogEntry {
     timestamp: Date
     level: string
@@ -48,27 +70,83 @@ interface PerformanceHistory {
     message_rate: number[]
 }
 
+interface SequenceStats {
+    gaps: number
+    missed_messages: number
+    duplicates: number
+    out_of_order: number
+    checksum_failures: number
+    resyncs: number
+    resync_pending: boolean
+}
+
+interface ProtocolErrorStats {
+    total: number
+    by_type: Record<string, number>
+    last_error: string | null
+}
+
+interface StalenessState {
+    level: StalenessLevel
+    since: string | null
+    samples: StalenessSample[]
+}
+
+interface ScenarioChange {
+    scenario: string
+    since: string
+}
+
+interface RestoredSession {
+    restored_at: string
+    incidents: number
+    logs: number
+    samples: number
+}
+
+// Entries ever appended to logs and performance_history; never reset, so persistence can tell which are new
+interface HistoryCounts {
+    logs: number
+    samples: number
+}
+
 interface DashboardState {
-    orderbook_data: OrderbookData
+    // Symbol the transport is subscribed to; orderbooks are kept per symbol
+    active_symbol: string
+    orderbooks: Record<string, OrderbookData>
+    // Top-of-book history for the active symbol
+    price_history: PriceSample[]
     metrics: Metrics
+    // Scenarios in the order they became current, for incident context
+    scenario_history: ScenarioChange[]
     incidents: Incident[]
     logs: LogEntry[]
     performance_history: PerformanceHistory
+    sequence_stats: SequenceStats
+    protocol_errors: ProtocolErrorStats
+    staleness: StalenessState
+    restored_session: RestoredSession | null
+    history_counts: HistoryCounts
+}
+
+const EMPTY_ORDERBOOK: OrderbookData = {
+    bids: [],
+    asks: [],
+    mid_price: 0,
+    spread: 0,
+    sequence_id: 0,
+    timestamp: null,
+    data_age_ms: 0,
+    is_stale: false,
+    processing_delay_ms: 0
 }
 
 const initialState: DashboardState = {
-    orderbook_data: {
-        bids: [],
-        asks: [],
-        mid_price: 0,
-        spread: 0,
-        sequence_id: 0,
-        timestamp: null,
-        data_age_ms: 0,
-        is_stale: false,
-        processing_delay_ms: 0
-    },
+    active_symbol: DEFAULT_SYMBOL,
+    orderbooks: {},
+    price_history: [],
     metrics: generateSampleMetrics(),
+    scenario_history: [],
     incidents: [],
     logs: [],
     performance_history: {
@@ -77,9 +155,80 @@ const initialState: DashboardState = {
         queue: [],
         processing_delay: [],
         message_rate: []
+    },
+    sequence_stats: {
+        gaps: 0,
+        missed_messages: 0,
+        duplicates: 0,
+        out_of_order: 0,
+        checksum_failures: 0,
+        resyncs: 0,
+        resync_pending: false
+    },
+    protocol_errors: {
+        total: 0,
+        by_type: {},
+        last_error: null
+    },
+    staleness: {
+        level: 'ok',
+        since: null,
+        samples: []
+    },
+    restored_session: null,
+    history_counts: {
+        logs: 0,
+        samples: 0
     }
 }
 
+function withActiveOrderbook(prev: DashboardState, updates: Partial<OrderbookData>): DashboardState {
+    const current = prev.orderbooks[prev.active_symbol] ?? EMPTY_ORDERBOOK
+    return {
+        ...prev,
+        orderbooks: { ...prev.orderbooks, [prev.active_symbol]: { ...current, ...updates } }
+    }
+}
+
+/** Apply an orderbook update and record the resulting top of book in the price history */
+function withOrderbookUpdate(prev: DashboardState, updates: Partial<OrderbookData>): DashboardState {
+    const next = withActiveOrderbook(prev, updates)
+    const { bids, asks, sequence_id } = next.orderbooks[next.active_symbol]
+    const sample = samplePrices(bids, asks, next.staleness.level, sequence_id)
+    return sample ? { ...next, price_history: appendPriceSample(next.price_history, sample) } : next
+}
+
+/** Merge metrics, recording the scenario when it changes */
+function withMetrics(prev: DashboardState, metrics: Partial<Metrics>): DashboardState {
+    const next = { ...prev, metrics: { ...prev.metrics, ...metrics } }
+    if (!metrics.current_scenario || metrics.current_scenario === prev.scenario_history[prev.scenario_history.length - 1]?.scenario) return next
+    return {
+        ...next,
+        scenario_history: [
+            ...prev.scenario_history.slice(-99),
+            { scenario: metrics.current_scenario, since: new Date().toISOString() }
+        ]
+    }
+}
+
+interface ResyncBackoff {
+    // Snapshot requests that failed since the book was last whole
+    failures: number
+    // No snapshot is requested before this time
+    not_before: number
+    // The transport can't serve snapshots; the next full orderbook_update restores the book
+    await_full_book: boolean
+}
+
+const INITIAL_RESYNC_BACKOFF: ResyncBackoff = { failures: 0, not_before: 0, await_full_book: false }
+
+const STALENESS_LOG_LEVELS: Record<StalenessLevel, string> = {
+    ok: 'INFO',
+    warn: 'WARNING',
+    degrade: 'WARNING',
+    halt: 'CRITICAL'
+}
+
 export function useDashboardState() {
     const [state, setState] = useState<DashboardState>(initialState)
     const [messageCount, setMessageCount] = useState(0)
@@ -89,6 +238,18 @@ export function useDashboardState() {
         scenario: string;
         timestamp: number;
     } | null>(null)
+    // Last applied sequence id, kept in a ref so gap checks see it synchronously
+    const lastSequenceIdRef = useRef(0)
+    // Book that orderbook_delta messages are applied against
+    const localBookRef = useRef(new LocalOrderbook())
+    // False once a delta was missed or failed its checksum, until a full book arrives
+    const bookConsistentRef = useRef(true)
+    const resyncPendingRef = useRef(false)
+    const resyncBackoffRef = useRef<ResyncBackoff>(INITIAL_RESYNC_BACKOFF)
+    // Mirrors state.active_symbol so message handlers can check it synchronously
+    const activeSymbolRef = useRef(DEFAULT_SYMBOL)
+    // Mirrors messageTimestamps so heartbeats can sample the rate synchronously
+    const messageTimestampsRef = useRef<number[]>([])
 
     const updateState = useCallback((updates: Partial<DashboardState>) => {
         setState(prev => ({ ...prev, ...updates }))
@@ -103,39 +264,359 @@ export function useDashboardState() {
 
         setState(prev => ({
             ...prev,
-            logs: [...prev.logs.slice(-999), logEntry] // Keep last 1000 logs
+            logs: [...prev.logs.slice(-999), logEntry], // Keep last 1000 logs
+            history_counts: { ...prev.history_counts, logs: prev.history_counts.logs + 1 }
         }))
     }, [])
 
-    const addIncident = useCallback((incident: Incident) => {
+    const addIncident = useCallback((incident: NewIncident) => {
         setState(prev => ({
             ...prev,
-            incidents: [...prev.incidents, incident]
+            incidents: mergeIncident(prev.incidents, incident)
         }))
     }, [])
 
-    const updateOrderbook = useCallback((orderbookData: Partial<OrderbookData>) => {
-        console.log('🔄 updateOrderbook called with:', orderbookData)
-        
+    const acknowledgeIncident = useCallback((id: string) => {
+        setState(prev => ({
+            ...prev,
+            incidents: updateIncident(prev.incidents, id, incident => incident.status === 'open'
+                ? { ...incident, status: 'acknowledged', acknowledged_at: new Date().toISOString() }
+                : incident)
+        }))
+    }, [])
+
+    const resolveIncident = useCallback((id: string) => {
+        setState(prev => ({
+            ...prev,
+            incidents: updateIncident(prev.incidents, id, incident => incident.status !== 'resolved'
+                ? { ...incident, status: 'resolved', resolved_at: new Date().toISOString() }
+                : incident)
+        }))
+    }, [])
+
+    const annotateIncident = useCallback((id: string, text: string) => {
+        setState(prev => ({
+            ...prev,
+            incidents: updateIncident(prev.incidents, id, incident => ({
+                ...incident,
+                notes: [...incident.notes, { timestamp: new Date().toISOString(), text }]
+            }))
+        }))
+    }, [])
+
+    const trackMessageRate = useCallback(() => {
         // Track message rate with timestamps
         const currentTime = Date.now()
+        // Keep only timestamps still inside the rate window
+        const timestamps = [...messageTimestampsRef.current.filter(timestamp => currentTime - timestamp < RATE_WINDOW_MS), currentTime]
+        messageTimestampsRef.current = timestamps
         setMessageCount(prev => prev + 1)
-        setMessageTimestamps(prev => {
-            // Keep only timestamps from last 10 seconds
-            const filtered = prev.filter(timestamp => currentTime - timestamp < 10000)
-            return [...filtered, currentTime]
-        })
-        
+        setMessageTimestamps(timestamps)
+    }, [])
+
+    const recordStalenessSample = useCallback((dataAge: number, isStale: boolean) => {
         setState(prev => {
-            const newState = {
+            const policy = getStalenessPolicy(prev.metrics.current_scenario)
+            const samples = appendSample(prev.staleness.samples, {
+                timestamp: Date.now(),
+                data_age_ms: dataAge,
+                is_stale: isStale
+            }, policy)
+            const level = evaluateStaleness(samples, policy)
+
+            if (level === prev.staleness.level) {
+                return { ...prev, staleness: { ...prev.staleness, samples } }
+            }
+
+            const message = isMoreSevere(level, prev.staleness.level)
+                ? `Data staleness ${level.toUpperCase()}: ${dataAge}ms old (${prev.metrics.current_scenario})`
+                : `Data staleness recovered to ${level.toUpperCase()}: ${dataAge}ms old`
+
+            return {
                 ...prev,
-                orderbook_data: { ...prev.orderbook_data, ...orderbookData }
+                logs: [...prev.logs.slice(-999), { timestamp: new Date(), level: STALENESS_LOG_LEVELS[level], message }],
+                history_counts: { ...prev.history_counts, logs: prev.history_counts.logs + 1 },
+                staleness: { level, since: new Date().toISOString(), samples }
             }
-            console.log('✅ New orderbook state:', newState.orderbook_data)
+        })
+    }, [])
+
+    const requestResync = useCallback(() => {
+        if (resyncPendingRef.current) return
+        const backoff = resyncBackoffRef.current
+        if (backoff.await_full_book || Date.now() < backoff.not_before) return
+        resyncPendingRef.current = true
+        setState(prev => ({
+            ...prev,
+            sequence_stats: { ...prev.sequence_stats, resync_pending: true }
+        }))
+    }, [])
+
+    /**
+     * Checks an incoming sequence id against the last applied one, recording
+     * duplicates, out-of-order messages and gaps. Returns false when the
+     * message must be dropped. Only deltas resync on a gap; orderbook updates
+     * don't depend on the messages before them.
+     */
+    const acceptSequence = useCallback((sequenceId: number | undefined, kind: string, resyncOnGap: boolean = false): boolean => {
+        if (sequenceId === undefined || sequenceId <= 0) return true
+
+        const lastSequenceId = lastSequenceIdRef.current
+        const check = checkSequence(lastSequenceId, sequenceId)
+
+        if (check.status === 'duplicate') {
+            addLog('WARNING', `Duplicate ${kind} dropped (seq: ${sequenceId})`)
+            setState(prev => ({
+                ...prev,
+                sequence_stats: { ...prev.sequence_stats, duplicates: prev.sequence_stats.duplicates + 1 }
+            }))
+            return false
+        }
+
+        if (check.status === 'out_of_order') {
+            addLog('WARNING', `Out-of-order ${kind} dropped (seq: ${sequenceId}, last applied: ${lastSequenceId})`)
+            setState(prev => ({
+                ...prev,
+                sequence_stats: { ...prev.sequence_stats, out_of_order: prev.sequence_stats.out_of_order + 1 }
+            }))
+            return false
+        }
+
+        if (check.status === 'gap') {
+            addLog('ERROR', `Sequence gap detected: missed ${check.missing} update(s) between seq ${lastSequenceId} and ${sequenceId}${resyncOnGap ? ' - requesting snapshot' : ''}`)
+            setState(prev => ({
+                ...prev,
+                incidents: mergeIncident(prev.incidents, {
+                    timestamp: new Date().toISOString(),
+                    type: 'sequence_gap',
+                    details: `Missed ${check.missing} update(s) between seq ${lastSequenceId} and ${sequenceId}`,
+                    scenario: prev.metrics.current_scenario,
+                    uptime: prev.metrics.uptime_seconds
+                }),
+                sequence_stats: {
+                    ...prev.sequence_stats,
+                    gaps: prev.sequence_stats.gaps + 1,
+                    missed_messages: prev.sequence_stats.missed_messages + check.missing
+                }
+            }))
+            if (resyncOnGap) requestResync()
+        }
+
+        lastSequenceIdRef.current = sequenceId
+        return true
+    }, [addLog, requestResync])
+
+    /** Messages tagged with another symbol are leftovers from a previous subscription */
+    const isForActiveSymbol = useCallback((symbol: string | undefined, kind: string): boolean => {
+        if (symbol === undefined || symbol === activeSymbolRef.current) return true
+        console.log(`⏭️ Ignoring ${kind} for ${symbol} while subscribed to ${activeSymbolRef.current}`)
+        return false
+    }, [])
+
+    const updateOrderbook = useCallback((update: Partial<OrderbookData> & { symbol?: string }) => {
+        console.log('🔄 updateOrderbook called with:', update)
+
+        const { symbol, ...orderbookData } = update
+        if (!isForActiveSymbol(symbol, 'orderbook update')) return
+
+        trackMessageRate()
+
+        if (!acceptSequence(orderbookData.sequence_id, 'orderbook update')) return
+
+        // Full books restore the local book deltas are applied against
+        if (orderbookData.bids && orderbookData.asks) {
+            localBookRef.current.replace(orderbookData.bids, orderbookData.asks)
+            bookConsistentRef.current = true
+            resyncBackoffRef.current = INITIAL_RESYNC_BACKOFF
+        }
+        
+        // Staleness first, so the price sample is tagged with the level this update produced
+        if (orderbookData.data_age_ms !== undefined) {
+            recordStalenessSample(orderbookData.data_age_ms, orderbookData.is_stale ?? false)
+        }
+
+        setState(prev => {
+            const newState = withOrderbookUpdate(prev, orderbookData)
+            console.log('✅ New orderbook state:', newState.orderbooks[newState.active_symbol])
             return newState
         })
+    }, [isForActiveSymbol, trackMessageRate, acceptSequence, recordStalenessSample])
+
+    const applyOrderbookDelta = useCallback((delta: OrderbookDelta) => {
+        if (!isForActiveSymbol(delta.symbol, 'orderbook delta')) return
+
+        trackMessageRate()
+
+        const lastSequenceId = lastSequenceIdRef.current
+        if (!acceptSequence(delta.sequence_id, 'orderbook delta', true)) return
+
+        // A missed delta leaves the book unknowable until a full book arrives
+        if (lastSequenceId > 0 && delta.sequence_id > lastSequenceId + 1) {
+            bookConsistentRef.current = false
+        }
+
+        if (!bookConsistentRef.current) {
+            console.log(`⏭️ Skipping orderbook delta ${delta.sequence_id} while book is inconsistent`)
+            requestResync()
+            return
+        }
+
+        const book = localBookRef.current
+        book.applyChanges('bids', delta.bids)
+        book.applyChanges('asks', delta.asks)
+
+        if (delta.checksum !== undefined) {
+            const localChecksum = book.checksum()
+            if (localChecksum !== delta.checksum) {
+                bookConsistentRef.current = false
+                addLog('ERROR', `Orderbook checksum mismatch at seq ${delta.sequence_id}: expected ${delta.checksum}, computed ${localChecksum} - requesting snapshot`)
+                setState(prev => ({
+                    ...prev,
+                    incidents: mergeIncident(prev.incidents, {
+                        timestamp: new Date().toISOString(),
+                        type: 'checksum_mismatch',
+                        details: `Expected ${delta.checksum}, computed ${localChecksum} at seq ${delta.sequence_id}`,
+                        scenario: prev.metrics.current_scenario,
+                        uptime: prev.metrics.uptime_seconds
+                    }),
+                    sequence_stats: {
+                        ...prev.sequence_stats,
+                        checksum_failures: prev.sequence_stats.checksum_failures + 1
+                    }
+                }))
+                requestResync()
+                return
+            }
+        }
+
+        const { mid_price, spread } = book.getMidAndSpread()
+        const orderbookData: Partial<OrderbookData> = {
+            bids: book.getBids(),
+            asks: book.getAsks(),
+            mid_price: delta.mid_price ?? mid_price,
+            spread: delta.spread ?? spread,
+            sequence_id: delta.sequence_id,
+            timestamp: delta.timestamp,
+            data_age_ms: delta.data_age_ms,
+            is_stale: delta.is_stale,
+            processing_delay_ms: delta.processing_delay_ms
+        }
+
+        if (delta.data_age_ms !== undefined) {
+            recordStalenessSample(delta.data_age_ms, delta.is_stale ?? false)
+        }
+
+        setState(prev => withOrderbookUpdate(prev, orderbookData))
+    }, [addLog, isForActiveSymbol, trackMessageRate, acceptSequence, requestResync, recordStalenessSample])
+
+    /**
+     * Give up on the pending snapshot request. Retryable failures back off
+     * before the next request; otherwise deltas wait for a full orderbook_update.
+     */
+    const abortOrderbookResync = useCallback((reason: string, retryable: boolean = true) => {
+        if (retryable) {
+            const failures = resyncBackoffRef.current.failures + 1
+            const delay = resyncBackoffMs(failures)
+            resyncBackoffRef.current = { failures, not_before: Date.now() + delay, await_full_book: false }
+            addLog('ERROR', `Orderbook resync failed: ${reason} - retrying in ${delay / 1000}s`)
+        } else {
+            resyncBackoffRef.current = { ...resyncBackoffRef.current, await_full_book: true }
+            addLog('WARNING', `Orderbook resync unavailable: ${reason} - waiting for the next full orderbook update`)
+        }
+        resyncPendingRef.current = false
+        setState(prev => ({
+            ...prev,
+            sequence_stats: { ...prev.sequence_stats, resync_pending: false }
+        }))
+    }, [addLog])
+
+    const applyOrderbookSnapshot = useCallback((snapshot: Partial<OrderbookData>) => {
+        const snapshotSequenceId = snapshot.sequence_id ?? 0
+
+        // The live stream may already be ahead of the snapshot, never move backwards
+        if (snapshotSequenceId < lastSequenceIdRef.current) {
+            // Deltas can't be applied on top of it, so it counts as a failed resync
+            if (!bookConsistentRef.current) {
+                abortOrderbookResync(`snapshot (seq: ${snapshotSequenceId}) is behind the live stream (seq: ${lastSequenceIdRef.current})`)
+                return
+            }
+            addLog('INFO', `Orderbook snapshot (seq: ${snapshotSequenceId}) is behind the live stream, keeping current book`)
+        } else {
+            lastSequenceIdRef.current = snapshotSequenceId
+            if (snapshot.bids && snapshot.asks) {
+                localBookRef.current.replace(snapshot.bids, snapshot.asks)
+                bookConsistentRef.current = true
+                resyncBackoffRef.current = INITIAL_RESYNC_BACKOFF
+            }
+            addLog('INFO', `Orderbook resynced from snapshot (seq: ${snapshotSequenceId})`)
+            setState(prev => withOrderbookUpdate(prev, snapshot))
+        }
+
+        resyncPendingRef.current = false
+        setState(prev => ({
+            ...prev,
+            sequence_stats: {
+                ...prev.sequence_stats,
+                resyncs: prev.sequence_stats.resyncs + 1,
+                resync_pending: false
+            }
+        }))
+    }, [addLog, abortOrderbookResync])
+
+    const recordProtocolError = useCallback((messageType: string, issues: ProtocolIssue[]) => {
+        const description = `Protocol error in ${messageType}: ${formatIssues(issues)}`
+        console.warn(`🧩 ${description}`)
+        addLog('ERROR', description)
+        setState(prev => ({
+            ...prev,
+            protocol_errors: {
+                total: prev.protocol_errors.total + 1,
+                by_type: {
+                    ...prev.protocol_errors.by_type,
+                    [messageType]: (prev.protocol_errors.by_type[messageType] ?? 0) + 1
+                },
+                last_error: description
+            }
+        }))
+    }, [addLog])
+
+    /** Forget the staleness level and samples, e.g. before resuming after the kill switch */
+    const resetStaleness = useCallback(() => {
+        setState(prev => ({ ...prev, staleness: initialState.staleness }))
+    }, [])
+
+    const resetSequenceTracking = useCallback(() => {
+        // A new connection may restart the server's sequence, start from a clean baseline
+        lastSequenceIdRef.current = 0
+        bookConsistentRef.current = false
+        resyncBackoffRef.current = INITIAL_RESYNC_BACKOFF
     }, [])
 
+    /**
+     * Switch the dashboard to another symbol. Sequence tracking and staleness
+     * start over because the new stream has its own sequence and latency.
+     */
+    const selectSymbol = useCallback((symbol: string) => {
+        if (symbol === activeSymbolRef.current) return
+
+        activeSymbolRef.current = symbol
+        lastSequenceIdRef.current = 0
+        localBookRef.current = new LocalOrderbook()
+        bookConsistentRef.current = false
+        resyncPendingRef.current = false
+        resyncBackoffRef.current = INITIAL_RESYNC_BACKOFF
+        addLog('INFO', `Switched symbol to ${symbol}`)
+        setState(prev => ({
+            ...prev,
+            active_symbol: symbol,
+            // Start the new symbol from an empty book rather than a stale one from earlier
+            orderbooks: { ...prev.orderbooks, [symbol]: EMPTY_ORDERBOOK },
+            price_history: [],
+            sequence_stats: { ...prev.sequence_stats, resync_pending: false },
+            staleness: initialState.staleness
+        }))
+    }, [addLog])
+
     const updateMetrics = useCallback((metrics: Partial<Metrics>) => {
         console.log('updateMetrics called with:', metrics)
         
@@ -169,10 +650,7 @@ export function useDashboardState() {
             // Debounce scenario updates
             const timeout = setTimeout(() => {
                 setState(prev => {
-                    const newState = {
-                        ...prev,
-                        metrics: { ...prev.metrics, ...metrics }
-                    }
+                    const newState = withMetrics(prev, metrics)
                     console.log('New metrics state (debounced):', newState.metrics)
                     return newState
                 })
@@ -192,8 +670,10 @@ export function useDashboardState() {
         }
     }, [scenarioUpdateTimeout, userOverride, state.metrics.current_scenario])
 
-    const updatePerformanceHistory = useCallback((memory: number, queue: number, delay: number, messageRate?: number) => {
+    /** Record a performance sample; the message rate defaults to the client-side rate right now */
+    const updatePerformanceHistory = useCallback((memory: number, queue: number, delay: number, rate?: number) => {
         const now = new Date()
+        const sampledRate = rate ?? messageRate(messageTimestampsRef.current, now.getTime())
         setState(prev => ({
             ...prev,
             performance_history: {
@@ -201,16 +681,59 @@ export function useDashboardState() {
                 memory: [...prev.performance_history.memory.slice(-999), memory],
                 queue: [...prev.performance_history.queue.slice(-999), queue],
                 processing_delay: [...prev.performance_history.processing_delay.slice(-999), delay],
-                message_rate: [...prev.performance_history.message_rate.slice(-999), messageRate || 0]
-            }
+                message_rate: [...prev.performance_history.message_rate.slice(-999), sampledRate]
+            },
+            history_counts: { ...prev.history_counts, samples: prev.history_counts.samples + 1 }
+        }))
+    }, [])
+
+    const restoreSession = useCallback((session: PersistedSession) => {
+        const restored: RestoredSession = {
+            restored_at: new Date().toISOString(),
+            incidents: session.incidents.length,
+            logs: session.logs.length,
+            samples: session.performance.length
+        }
+        const marker: LogEntry = {
+            timestamp: new Date(),
+            level: 'INFO',
+            message: `Restored from previous session: ${restored.incidents} incidents, ${restored.logs} logs, ${restored.samples} performance samples`
+        }
+
+        setState(prev => ({
+            ...prev,
+            // Restored entries go before anything received since load
+            incidents: [
+                ...session.incidents.filter(incident => !prev.incidents.some(current => current.id === incident.id)),
+                ...prev.incidents
+            ],
+            logs: [...session.logs, marker, ...prev.logs].slice(-1000),
+            performance_history: {
+                timestamps: [...session.performance.map(sample => sample.timestamp), ...prev.performance_history.timestamps].slice(-1000),
+                memory: [...session.performance.map(sample => sample.memory), ...prev.performance_history.memory].slice(-1000),
+                queue: [...session.performance.map(sample => sample.queue), ...prev.performance_history.queue].slice(-1000),
+                processing_delay: [...session.performance.map(sample => sample.processing_delay), ...prev.performance_history.processing_delay].slice(-1000),
+                message_rate: [...session.performance.map(sample => sample.message_rate), ...prev.performance_history.message_rate].slice(-1000)
+            },
+            restored_session: restored,
+            // Restored entries were stored already; only the marker is new
+            history_counts: { ...prev.history_counts, logs: prev.history_counts.logs + 1 }
+        }))
+    }, [])
+
+    const clearHistory = useCallback(() => {
+        setState(prev => ({
+            ...prev,
+            incidents: [],
+            logs: [],
+            performance_history: initialState.performance_history,
+            restored_session: null
         }))
     }, [])
 
     const getMessageRate = useCallback(() => {
         // Calculate messages per second based on actual message timestamps
-        const now = Date.now()
-        const recentMessages = messageTimestamps.filter(timestamp => now - timestamp < 5000) // last 5 seconds
-        return recentMessages.length / 5 // messages per second
+        return messageRate(messageTimestamps)
     }, [messageTimestamps])
 
     const setUserScenarioOverride = useCallback((scenario: string) => {
@@ -229,9 +752,15 @@ export function useDashboardState() {
 
     const resetToInitialState = useCallback(() => {
         console.log('🔄 Resetting dashboard to initial state')
-        setState(initialState)
+        setState(prev => ({ ...initialState, active_symbol: activeSymbolRef.current, history_counts: prev.history_counts }))
+        lastSequenceIdRef.current = 0
+        localBookRef.current = new LocalOrderbook()
+        bookConsistentRef.current = true
+        resyncPendingRef.current = false
+        resyncBackoffRef.current = INITIAL_RESYNC_BACKOFF
         setMessageCount(0)
         setMessageTimestamps([])
+        messageTimestampsRef.current = []
         if (scenarioUpdateTimeout) {
             clearTimeout(scenarioUpdateTimeout)
             setScenarioUpdateTimeout(null)
@@ -241,10 +770,23 @@ export function useDashboardState() {
 
     return {
         state,
+        activeOrderbook: state.orderbooks[state.active_symbol] ?? EMPTY_ORDERBOOK,
         updateState,
         addLog,
         addIncident,
+        acknowledgeIncident,
+        resolveIncident,
+        annotateIncident,
+        restoreSession,
+        clearHistory,
         updateOrderbook,
+        applyOrderbookDelta,
+        applyOrderbookSnapshot,
+        abortOrderbookResync,
+        recordProtocolError,
+        resetSequenceTracking,
+        resetStaleness,
+        selectSymbol,
         updateMetrics,
         updatePerformanceHistory,
         getMessageRate,
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useDashboardState } from './useDashboardState'
+import { ApiError, describeApiError } from '@/lib/apiClient'
+import {
+  buildIncidentPayload,
+  deliverIncident,
+  getIncidentSinks,
+  type IncidentSinkConfig,
+  type SinkDelivery
+} from '@/lib/incidentSinks'
+
+// Incidents older than this when first seen (e.g. restored from a previous session) aren't auto-exported
+const AUTO_EXPORT_FRESHNESS_MS = 60_000
+
+export function useIncidentSinks(dashboardState: ReturnType<typeof useDashboardState>) {
+  const { state, activeOrderbook, addLog } = dashboardState
+  const [sinks, setSinks] = useState<IncidentSinkConfig[]>([])
+  // Per incident id, the latest delivery to each sink
+  const [deliveries, setDeliveries] = useState<Record<string, Record<string, SinkDelivery>>>({})
+  // Latest state for building payloads from async callbacks
+  const contextRef = useRef({ state, activeOrderbook })
+  const autoExportedRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    contextRef.current = { state, activeOrderbook }
+  }, [state, activeOrderbook])
+
+  useEffect(() => {
+    setSinks(getIncidentSinks())
+  }, [])
+
+  const recordDelivery = useCallback((incidentId: string, delivery: SinkDelivery) => {
+    setDeliveries(prev => ({
+      ...prev,
+      [incidentId]: { ...prev[incidentId], [delivery.sink]: delivery }
+    }))
+  }, [])
+
+  const sendToSink = useCallback(async (incidentId: string, sink: IncidentSinkConfig) => {
+    const { state: current, activeOrderbook: orderbook } = contextRef.current
+    const incident = current.incidents.find(candidate => candidate.id === incidentId)
+    if (!incident) return
+
+    const payload = buildIncidentPayload(incident, {
+      symbol: current.active_symbol,
+      scenario: current.metrics.current_scenario,
+      data_age_ms: orderbook.data_age_ms,
+      sequence_id: orderbook.sequence_id,
+      metrics: current.metrics,
+      logs: current.logs
+    })
+
+    recordDelivery(incidentId, { sink: sink.name, status: 'sending', attempts: 0, updated_at: new Date().toISOString() })
+
+    try {
+      const { status, attempts } = await deliverIncident(sink, payload)
+      recordDelivery(incidentId, { sink: sink.name, status, attempts, updated_at: new Date().toISOString() })
+      addLog('INFO', `Incident ${incident.type} exported to ${sink.name}${status === 'unconfirmed' ? ' (delivery unconfirmed)' : ''}`)
+    } catch (err) {
+      const description = describeApiError(err)
+      const attempts = err instanceof ApiError ? err.attempts : 1
+      recordDelivery(incidentId, { sink: sink.name, status: 'failed', attempts, updated_at: new Date().toISOString(), error: description })
+      addLog('ERROR', `Failed to export incident ${incident.type} to ${sink.name}: ${description}`)
+    }
+  }, [addLog, recordDelivery])
+
+  /** Export an incident to every sink, or just `sinkName` (used to retry a failed delivery) */
+  const exportIncident = useCallback((incidentId: string, sinkName?: string) => {
+    sinks
+      .filter(sink => sinkName === undefined || sink.name === sinkName)
+      .forEach(sink => {
+        void sendToSink(incidentId, sink)
+      })
+  }, [sinks, sendToSink])
+
+  // New incidents go to auto sinks once; repeats of the same incident don't re-export
+  useEffect(() => {
+    const autoSinks = sinks.filter(sink => sink.auto)
+    if (autoSinks.length === 0) return
+
+    const now = Date.now()
+    state.incidents.forEach(incident => {
+      if (autoExportedRef.current.has(incident.id)) return
+      autoExportedRef.current.add(incident.id)
+      if (incident.status !== 'open' || now - Date.parse(incident.timestamp) > AUTO_EXPORT_FRESHNESS_MS) return
+
+      autoSinks.forEach(sink => {
+        void sendToSink(incident.id, sink)
+      })
+    })
+  }, [state.incidents, sinks, sendToSink])
+
+  return {
+    sinks,
+    deliveries,
+    exportIncident
+  }
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useDashboardState } from './useDashboardState'
+import { apiClient } from '@/lib/apiClient'
+import { MockTransport, type MarketDataTransport } from '@/lib/transport'
+import {
+  DEFAULT_INSTRUMENT,
+  findInstrument,
+  rememberSymbol,
+  type Instrument
+} from '@/lib/instruments'
+
+/**
+ * Instrument metadata and the selected symbol. Selecting a symbol switches
+ * the dashboard state and resubscribes the transport.
+ */
+export function useInstruments(transport: MarketDataTransport, dashboardState: ReturnType<typeof useDashboardState>) {
+  const [instruments, setInstruments] = useState<Instrument[]>([DEFAULT_INSTRUMENT])
+  const { state, selectSymbol: selectDashboardSymbol, addLog } = dashboardState
+  const symbol = state.active_symbol
+
+  // Follow the transport's subscription, e.g. a remembered symbol or a new transport
+  useEffect(() => {
+    selectDashboardSymbol(transport.getSymbol())
+  }, [transport, selectDashboardSymbol])
+
+  useEffect(() => {
+    if (transport instanceof MockTransport) {
+      setInstruments(transport.simulator.getInstruments())
+      return
+    }
+
+    const controller = new AbortController()
+
+    apiClient.getInstruments(controller.signal)
+      .then(loaded => {
+        if (controller.signal.aborted) return
+        console.log(`📈 Loaded ${loaded.length} instruments`)
+        if (loaded.length > 0) {
+          setInstruments(loaded)
+        }
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        // Older publishers have no instruments endpoint; keep the built-in BTC/USDT metadata
+        console.error('Failed to load instruments:', err)
+      })
+
+    return () => controller.abort()
+  }, [transport])
+
+  const selectSymbol = useCallback((nextSymbol: string) => {
+    if (nextSymbol === transport.getSymbol()) return
+
+    rememberSymbol(nextSymbol)
+    selectDashboardSymbol(nextSymbol)
+    try {
+      transport.setSymbol(nextSymbol)
+    } catch (err) {
+      addLog('ERROR', `Failed to subscribe to ${nextSymbol}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }, [transport, selectDashboardSymbol, addLog])
+
+  return {
+    instruments,
+    symbol,
+    instrument: findInstrument(instruments, symbol),
+    selectSymbol
+  }
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { diffLevels, type LevelDiff, type PriceLevel } from '@/lib/orderbook'
+
+// How long a changed level stays highlighted
+const FLASH_DURATION_MS = 600
+
+interface BookDiff {
+  bids: LevelDiff
+  asks: LevelDiff
+}
+
+const NO_CHANGES: BookDiff = {
+  bids: { changes: new Map(), removed: [] },
+  asks: { changes: new Map(), removed: [] }
+}
+
+/**
+ * Diffs each new version of the book against the previous one so rows can
+ * flash on their own changes. `resetKey` marks view changes (symbol, grouping)
+ * whose differences aren't market activity and shouldn't flash.
+ */
+export function useLevelChanges(bids: PriceLevel[], asks: PriceLevel[], resetKey: string): BookDiff {
+  const [diff, setDiff] = useState<BookDiff>(NO_CHANGES)
+  const previousRef = useRef<{ bids: PriceLevel[]; asks: PriceLevel[]; resetKey: string } | null>(null)
+
+  useEffect(() => {
+    const previous = previousRef.current
+    previousRef.current = { bids, asks, resetKey }
+
+    if (!previous || previous.resetKey !== resetKey) {
+      setDiff(NO_CHANGES)
+      return
+    }
+
+    setDiff({
+      bids: diffLevels(previous.bids, bids),
+      asks: diffLevels(previous.asks, asks)
+    })
+
+    // Each update restarts the timer, so a busy book shows its latest changes
+    const timer = setTimeout(() => setDiff(NO_CHANGES), FLASH_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [bids, asks, resetKey])
+
+  return diff
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useDashboardState } from './useDashboardState'
+import {
+  getMarketDataTransport,
+  subscribeToTransportChange,
+  type MarketDataMessage,
+  type MarketDataTransport
+} from '@/lib/transport'
+import { routeMessage } from '@/lib/transport/messageRouter'
+import { validateMessage } from '@/lib/transport/schemas'
+import { apiClient, describeApiError } from '@/lib/apiClient'
+
+export function useMarketData(dashboardState: ReturnType<typeof useDashboardState>) {
+  const [isConnected, setIsConnected] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [transport, setTransport] = useState<MarketDataTransport>(() => getMarketDataTransport())
+  const transportLabel = transport.label
+
+  // Follow switches between the live feed and alternative transports (e.g. replay)
+  useEffect(() => subscribeToTransportChange(setTransport), [])
+
+  const handleMessage = useCallback((message: MarketDataMessage) => {
+    // Validate at the boundary so malformed payloads never reach the dashboard state
+    const result = validateMessage(message)
+    if (!result.ok) {
+      dashboardState.recordProtocolError(result.type, result.issues)
+      return
+    }
+    routeMessage(result.message, dashboardState)
+  }, [dashboardState])
+
+  const handleConnectionChange = useCallback((connected: boolean) => {
+    setIsConnected(connected)
+    if (connected) {
+      setError(null)
+      dashboardState.resetSequenceTracking()
+      dashboardState.addLog('INFO', `${transportLabel} connected successfully`)
+    } else {
+      dashboardState.addLog('WARNING', `${transportLabel} connection lost`)
+    }
+  }, [dashboardState, transportLabel])
+
+  const handleError = useCallback((errorMessage: string) => {
+    setError(errorMessage)
+    dashboardState.addLog('ERROR', errorMessage)
+  }, [dashboardState])
+
+  // Create stable callback references using refs to avoid re-subscriptions
+  const connectionChangeRef = useRef(handleConnectionChange)
+  const messageRef = useRef(handleMessage)
+  const errorRef = useRef(handleError)
+
+  useEffect(() => {
+    // Update refs when callbacks change
+    connectionChangeRef.current = handleConnectionChange
+    messageRef.current = handleMessage
+    errorRef.current = handleError
+  }, [handleConnectionChange, handleError, handleMessage])
+
+  useEffect(() => {
+    console.log(`🎯 Subscribing to ${transportLabel} transport`)
+
+    // Subscribe to the singleton transport with stable wrapper functions
+    const unsubscribe = transport.subscribe(
+      (connected) => connectionChangeRef.current(connected),
+      (message) => messageRef.current(message),
+      (error) => errorRef.current(error)
+    )
+
+    // Connect if not already connected
+    if (!transport.isConnected()) {
+      transport.connect()
+    }
+
+    return () => {
+      console.log(`🔥 Unsubscribing from ${transportLabel} transport`)
+      unsubscribe()
+    }
+  }, [transport, transportLabel])
+
+  // Fetch a fresh snapshot whenever the book is known to be inconsistent
+  const resyncPending = dashboardState.state.sequence_stats.resync_pending
+  const { applyOrderbookSnapshot, abortOrderbookResync } = dashboardState
+
+  useEffect(() => {
+    if (!resyncPending) return
+
+    // Snapshots come from the live server; recorded or simulated streams have none
+    if (transport.kind !== 'sse' && transport.kind !== 'websocket') {
+      abortOrderbookResync(`snapshots are not available from the ${transport.label} transport`, false)
+      return
+    }
+
+    const controller = new AbortController()
+
+    const requestSnapshot = async () => {
+      try {
+        console.log('📸 Requesting orderbook snapshot')
+        const snapshot = await apiClient.getOrderbookSnapshot(transport.getSymbol(), controller.signal)
+        if (!controller.signal.aborted) {
+          applyOrderbookSnapshot(snapshot)
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Failed to fetch orderbook snapshot:', err)
+        abortOrderbookResync(describeApiError(err))
+      }
+    }
+
+    requestSnapshot()
+
+    return () => controller.abort()
+  }, [resyncPending, transport, applyOrderbookSnapshot, abortOrderbookResync])
+
+  return { isConnected, error, transport }
+}
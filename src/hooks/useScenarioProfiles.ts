@@ -0,0 +1,59 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { apiClient, describeApiError } from '@/lib/apiClient'
+import { MockTransport, type MarketDataTransport } from '@/lib/transport'
+import { profilesFromMockScenarios, type ScenarioProfile } from '@/lib/profiles'
+
+/**
+ * Available scenario profiles: from the simulator when running offline,
+ * otherwise from the publisher's /config/profiles endpoint.
+ */
+export function useScenarioProfiles(transport?: MarketDataTransport) {
+  const [profiles, setProfiles] = useState<ScenarioProfile[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    if (transport instanceof MockTransport) {
+      setProfiles(profilesFromMockScenarios(transport.simulator.getScenarios()))
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+
+    const loadProfiles = async () => {
+      setIsLoading(true)
+      try {
+        const loaded = await apiClient.getProfiles(controller.signal)
+        if (controller.signal.aborted) return
+        console.log(`🎛️ Loaded ${loaded.length} scenario profiles`)
+        setProfiles(loaded)
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Failed to load scenario profiles:', err)
+        setError(describeApiError(err))
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    loadProfiles()
+
+    return () => {
+      controller.abort()
+      // An aborted load skips the reset in its finally; a load started next sets this again
+      setIsLoading(false)
+    }
+  }, [transport, reloadKey])
+
+  const reload = useCallback(() => setReloadKey(prev => prev + 1), [])
+
+  return { profiles, isLoading, error, reload }
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  apiClient,
+  describeApiError,
+  type HealthResponse,
+  type MetricsSummaryResponse,
+  type PublisherStatusResponse,
+  type StatusResponse
+} from '@/lib/apiClient'
+
+const REFRESH_INTERVAL_MS = 5000
+
+interface EndpointResult<T> {
+  data: T | null
+  error: string | null
+  latency_ms: number | null
+}
+
+export interface ServerStatusSnapshot {
+  health: EndpointResult<HealthResponse>
+  status: EndpointResult<StatusResponse>
+  publisher: EndpointResult<PublisherStatusResponse>
+  metrics: EndpointResult<MetricsSummaryResponse>
+  checked_at: Date | null
+}
+
+const emptyResult = { data: null, error: null, latency_ms: null }
+
+async function timed<T>(load: () => Promise<T>): Promise<EndpointResult<T>> {
+  const startedAt = performance.now()
+  try {
+    const data = await load()
+    return { data, error: null, latency_ms: Math.round(performance.now() - startedAt) }
+  } catch (err) {
+    return { data: null, error: describeApiError(err), latency_ms: null }
+  }
+}
+
+/**
+ * Polls /health, /status, /status/publisher and /metrics/summary together.
+ * Each endpoint fails independently so one broken check doesn't blank the page.
+ * The next poll is scheduled once the current one settles, so a slow server
+ * never has more than one round of checks in flight from polling.
+ */
+export function useServerStatus() {
+  const [snapshot, setSnapshot] = useState<ServerStatusSnapshot>({
+    health: emptyResult,
+    status: emptyResult,
+    publisher: emptyResult,
+    metrics: emptyResult,
+    checked_at: null
+  })
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  // Id of the latest refresh; responses from earlier ones are stale and dropped
+  const latestRequestRef = useRef(0)
+
+  const refresh = useCallback(async (signal?: AbortSignal) => {
+    const requestId = ++latestRequestRef.current
+    setIsRefreshing(true)
+    const [health, status, publisher, metrics] = await Promise.all([
+      timed(() => apiClient.getHealth(signal)),
+      timed(() => apiClient.getStatus(signal)),
+      timed(() => apiClient.getPublisherStatus(signal)),
+      timed(() => apiClient.getMetricsSummary(signal))
+    ])
+    if (signal?.aborted || requestId !== latestRequestRef.current) return
+
+    setSnapshot({ health, status, publisher, metrics, checked_at: new Date() })
+    setIsRefreshing(false)
+  }, [])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let timeout: NodeJS.Timeout | null = null
+
+    const poll = async () => {
+      await refresh(controller.signal)
+      if (controller.signal.aborted) return
+      timeout = setTimeout(poll, REFRESH_INTERVAL_MS)
+    }
+    poll()
+
+    return () => {
+      if (timeout) clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [refresh])
+
+  return { snapshot, isRefreshing, refresh, refreshIntervalMs: REFRESH_INTERVAL_MS }
+}
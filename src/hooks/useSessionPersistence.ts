@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useDashboardState } from './useDashboardState'
+import {
+  appendSession,
+  clearSession,
+  isPersistenceEnabled,
+  loadSession,
+  setPersistenceEnabled
+} from '@/lib/persistence'
+
+// Writes are batched: the first change after a save schedules the next one, so a live feed still saves this often
+const SAVE_INTERVAL_MS = 2000
+
+export function useSessionPersistence(dashboardState: ReturnType<typeof useDashboardState>) {
+  const [enabled, setEnabled] = useState(false)
+  const [isHydrated, setIsHydrated] = useState(false)
+  const { state, restoreSession, clearHistory, addLog } = dashboardState
+  const { incidents, logs, performance_history, history_counts } = state
+  // Latest history for the scheduled save to read
+  const latestRef = useRef({ incidents, logs, performance_history, history_counts })
+  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // history_counts as of the last stored entries
+  const savedCountsRef = useRef(history_counts)
+  // Saves and clears run one after another so they can't interleave in IndexedDB
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve())
+
+  useEffect(() => {
+    latestRef.current = { incidents, logs, performance_history, history_counts }
+  }, [incidents, logs, performance_history, history_counts])
+
+  // Restore on load; writes stay off until this finishes so we never overwrite history with an empty session
+  useEffect(() => {
+    const persistenceEnabled = isPersistenceEnabled()
+    setEnabled(persistenceEnabled)
+
+    if (!persistenceEnabled || typeof window.indexedDB === 'undefined') {
+      setIsHydrated(true)
+      return
+    }
+
+    loadSession()
+      .then(session => {
+        if (session.incidents.length + session.logs.length + session.performance.length > 0) {
+          console.log('💾 Restoring previous dashboard session')
+          restoreSession(session)
+        }
+      })
+      .catch(err => {
+        console.error('Failed to restore dashboard session:', err)
+      })
+      .finally(() => {
+        setIsHydrated(true)
+      })
+  }, [restoreSession])
+
+  const saveNewEntries = useCallback(() => {
+    saveTimeoutRef.current = null
+    writeQueueRef.current = writeQueueRef.current.then(() => {
+      const { incidents, logs, performance_history, history_counts } = latestRef.current
+
+      // Entries appended since the last save, minus any already trimmed or cleared from the state
+      const logCount = Math.min(history_counts.logs - savedCountsRef.current.logs, logs.length)
+      const sampleCount = Math.min(history_counts.samples - savedCountsRef.current.samples, performance_history.timestamps.length)
+      const newLogs = logCount > 0 ? logs.slice(-logCount) : []
+      const sampleStart = performance_history.timestamps.length - Math.max(0, sampleCount)
+      const newSamples = performance_history.timestamps.slice(sampleStart).map((timestamp, offset) => {
+        const index = sampleStart + offset
+        return {
+          timestamp,
+          memory: performance_history.memory[index] ?? 0,
+          queue: performance_history.queue[index] ?? 0,
+          processing_delay: performance_history.processing_delay[index] ?? 0,
+          message_rate: performance_history.message_rate[index] ?? 0
+        }
+      })
+
+      return appendSession({ incidents, logs: newLogs, performance: newSamples })
+        .then(() => {
+          savedCountsRef.current = history_counts
+        })
+        .catch(err => {
+          console.error('Failed to persist dashboard session:', err)
+        })
+    })
+  }, [])
+
+  // A pending save isn't pushed back by later changes, so a steady stream of updates can't starve it
+  useEffect(() => {
+    if (!enabled || !isHydrated || saveTimeoutRef.current) return
+    saveTimeoutRef.current = setTimeout(saveNewEntries, SAVE_INTERVAL_MS)
+  }, [enabled, isHydrated, incidents, logs, performance_history, saveNewEntries])
+
+  // Drop a pending save when persistence is switched off or the dashboard unmounts
+  useEffect(() => {
+    if (!enabled || !isHydrated) return
+    return () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current)
+        saveTimeoutRef.current = null
+      }
+    }
+  }, [enabled, isHydrated])
+
+  const togglePersistence = useCallback((next: boolean) => {
+    setPersistenceEnabled(next)
+    setEnabled(next)
+    addLog('INFO', next ? 'Session history persistence enabled' : 'Session history persistence disabled')
+  }, [addLog])
+
+  const clearPersistedHistory = useCallback(async () => {
+    const cleared = writeQueueRef.current.then(async () => {
+      try {
+        await clearSession()
+      } catch (err) {
+        console.error('Failed to clear persisted history:', err)
+      }
+      // Whatever is in the state now is dropped with it
+      savedCountsRef.current = latestRef.current.history_counts
+      clearHistory()
+    })
+    writeQueueRef.current = cleared
+    await cleared
+  }, [clearHistory])
+
+  return {
+    enabled,
+    restoredSession: state.restored_session,
+    togglePersistence,
+    clearHistory: clearPersistedHistory
+  }
+}
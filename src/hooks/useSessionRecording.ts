@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useDashboardState } from './useDashboardState'
+import {
+  activateLiveTransport,
+  activateTransport,
+  getMarketDataTransport,
+  ReplayTransport
+} from '@/lib/transport'
+import type { ReplayState } from '@/lib/transport/ReplayTransport'
+import { SessionRecorder, downloadRecording, parseNDJSON } from '@/lib/recording'
+
+export function useSessionRecording(dashboardState: ReturnType<typeof useDashboardState>) {
+  const recorder = useRef(new SessionRecorder())
+  const [isRecording, setIsRecording] = useState(false)
+  const [recordedCount, setRecordedCount] = useState(0)
+  const [replay, setReplay] = useState<ReplayTransport | null>(null)
+  const [replayState, setReplayState] = useState<ReplayState | null>(null)
+  const { addLog, resetToInitialState } = dashboardState
+
+  // Refresh the recorded message count while recording
+  useEffect(() => {
+    if (!isRecording) return
+    const interval = setInterval(() => {
+      setRecordedCount(recorder.current.getMessages().length)
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [isRecording])
+
+  useEffect(() => {
+    if (!replay) {
+      setReplayState(null)
+      return
+    }
+    return replay.subscribeToState(setReplayState)
+  }, [replay])
+
+  // Stop recording when the component using it goes away
+  useEffect(() => {
+    const current = recorder.current
+    return () => current.stop()
+  }, [])
+
+  const startRecording = useCallback(() => {
+    recorder.current.start(getMarketDataTransport())
+    setIsRecording(true)
+    setRecordedCount(0)
+    addLog('INFO', 'Started recording market data stream')
+  }, [addLog])
+
+  const stopRecording = useCallback(() => {
+    recorder.current.stop()
+    setIsRecording(false)
+    setRecordedCount(recorder.current.getMessages().length)
+    addLog('INFO', `Stopped recording: ${recorder.current.getMessages().length} messages captured`)
+  }, [addLog])
+
+  const exportRecording = useCallback(() => {
+    downloadRecording(recorder.current.getMessages())
+  }, [])
+
+  const loadReplay = useCallback(async (file: File) => {
+    try {
+      const messages = parseNDJSON(await file.text())
+      recorder.current.stop()
+      setIsRecording(false)
+
+      // Replay starts from a clean dashboard, just like a fresh live session
+      resetToInitialState()
+
+      const transport = new ReplayTransport(messages)
+      setReplay(transport)
+      activateTransport(transport)
+      addLog('INFO', `Replaying ${messages.length} messages from ${file.name}`)
+    } catch (err) {
+      console.error('Failed to load recording:', err)
+      addLog('ERROR', `Failed to load recording: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }, [addLog, resetToInitialState])
+
+  const restartReplay = useCallback(() => {
+    if (!replay) return
+    // The recording's sequence ids start over, so the dashboard does too
+    resetToInitialState()
+    replay.restart()
+    addLog('INFO', 'Replay restarted from the first message')
+  }, [replay, addLog, resetToInitialState])
+
+  const exitReplay = useCallback(() => {
+    activateLiveTransport()
+    setReplay(null)
+    addLog('INFO', 'Replay ended, back to live data')
+  }, [addLog])
+
+  return {
+    isRecording,
+    recordedCount,
+    startRecording,
+    stopRecording,
+    exportRecording,
+    replay,
+    replayState,
+    loadReplay,
+    restartReplay,
+    exitReplay
+  }
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useDashboardState } from './useDashboardState'
+import { apiClient } from '@/lib/apiClient'
+import { getStalenessPolicy } from '@/lib/stalenessPolicy'
+import {
+  DEFAULT_RECOVERY_POLICY,
+  getRecoveryPolicy,
+  RecoveryCircuitBreaker,
+  trackHealthySince
+} from '@/lib/recovery'
+import { MockTransport, type MarketDataTransport } from '@/lib/transport'
+
+// idle: not halted; manual: halted, waiting for Resume; waiting: polling for healthy data;
+// circuit_open: tripped too often, automatic recovery stopped until Resume
+export type RecoveryPhase = 'idle' | 'manual' | 'waiting' | 'circuit_open'
+
+/**
+ * Reconnects the feed after the staleness kill switch (`halted`) without
+ * wiping the dashboard: on Resume, or automatically once the publisher's data
+ * age has stayed healthy long enough. `onResume` does the reconnecting.
+ */
+export function useStalenessRecovery(
+  dashboardState: ReturnType<typeof useDashboardState>,
+  transport: MarketDataTransport,
+  halted: boolean,
+  onResume: () => void
+) {
+  const { state, addLog } = dashboardState
+  const [policy, setPolicy] = useState(DEFAULT_RECOVERY_POLICY)
+  const [trips, setTrips] = useState(0)
+  const [circuitOpen, setCircuitOpen] = useState(false)
+  const [dataAgeMs, setDataAgeMs] = useState<number | null>(null)
+  // How long the data age has been healthy, as of the last poll
+  const [healthyForMs, setHealthyForMs] = useState<number | null>(null)
+  const breakerRef = useRef<RecoveryCircuitBreaker | null>(null)
+  const wasHaltedRef = useRef(false)
+  const onResumeRef = useRef(onResume)
+
+  const healthyDataAgeMs = policy.healthy_data_age_ms ?? getStalenessPolicy(state.metrics.current_scenario).warn_ms
+
+  useEffect(() => {
+    onResumeRef.current = onResume
+  }, [onResume])
+
+  useEffect(() => {
+    const recoveryPolicy = getRecoveryPolicy()
+    setPolicy(recoveryPolicy)
+    breakerRef.current = new RecoveryCircuitBreaker(recoveryPolicy.max_trips, recoveryPolicy.trip_window_ms)
+  }, [])
+
+  // Each halt is a trip; too many and automatic recovery stops
+  useEffect(() => {
+    if (halted && !wasHaltedRef.current && breakerRef.current) {
+      breakerRef.current.recordTrip()
+      const recentTrips = breakerRef.current.recentTrips()
+      setTrips(recentTrips)
+      if (policy.auto && breakerRef.current.isOpen()) {
+        setCircuitOpen(true)
+        addLog('ERROR', `Auto-recovery stopped: kill switch tripped ${recentTrips} times within ${Math.round(policy.trip_window_ms / 60_000)}m - resume manually`)
+      }
+    }
+    wasHaltedRef.current = halted
+  }, [halted, policy.auto, policy.trip_window_ms, addLog])
+
+  useEffect(() => {
+    // Replays have no publisher to check
+    if (!halted || !policy.auto || circuitOpen || transport.kind === 'replay') return
+
+    const controller = new AbortController()
+    let since: number | null = null
+    let inFlight = false
+    setDataAgeMs(null)
+    setHealthyForMs(null)
+    // The simulator stops ticking while halted, so its data age would never improve on its own
+    if (transport instanceof MockTransport) transport.simulator.recover()
+
+    const readDataAge = async (): Promise<number | null> => {
+      if (transport instanceof MockTransport) return transport.simulator.dataAge()
+      try {
+        const status = await apiClient.getPublisherStatus(controller.signal)
+        return typeof status.publisher?.data_age_ms === 'number' ? status.publisher.data_age_ms : null
+      } catch {
+        return null
+      }
+    }
+
+    const poll = async () => {
+      if (inFlight || controller.signal.aborted) return
+      inFlight = true
+      const dataAge = await readDataAge()
+      inFlight = false
+      if (controller.signal.aborted) return
+
+      const now = Date.now()
+      since = trackHealthySince(since, dataAge, healthyDataAgeMs, now)
+      setDataAgeMs(dataAge)
+      setHealthyForMs(since !== null ? now - since : null)
+
+      if (since !== null && now - since >= policy.healthy_for_ms) {
+        controller.abort()
+        addLog('INFO', `Auto-recovery: publisher data age healthy (${dataAge?.toFixed(0)}ms) for ${policy.healthy_for_ms / 1000}s - reconnecting`)
+        onResumeRef.current()
+      }
+    }
+
+    void poll()
+    const interval = setInterval(poll, policy.poll_interval_ms)
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [halted, policy.auto, policy.healthy_for_ms, policy.poll_interval_ms, circuitOpen, transport, healthyDataAgeMs, addLog])
+
+  /** Reconnect now; an operator resuming also closes the circuit breaker */
+  const resume = useCallback(() => {
+    breakerRef.current?.reset()
+    setTrips(0)
+    setCircuitOpen(false)
+    addLog('INFO', 'Resuming live feed after staleness halt')
+    onResumeRef.current()
+  }, [addLog])
+
+  const phase: RecoveryPhase = !halted
+    ? 'idle'
+    : circuitOpen
+      ? 'circuit_open'
+      : policy.auto && transport.kind !== 'replay' ? 'waiting' : 'manual'
+
+  return {
+    policy,
+    phase,
+    trips,
+    dataAgeMs,
+    healthyForMs,
+    healthyDataAgeMs,
+    resume
+  }
+}
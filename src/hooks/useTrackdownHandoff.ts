@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { useDashboardState } from './useDashboardState'
+import { describeApiError } from '@/lib/apiClient'
+import {
+  buildTrackdownBundle,
+  buildTrackdownParams,
+  buildTrackdownUrl,
+  encodeTrackdownBundle,
+  getTrackdownConfig,
+  submitTrackdownBundle,
+  type TrackdownIncident
+} from '@/lib/trackdown'
+
+export type TrackdownHandoff =
+  | { status: 'submitting' }
+  | { status: 'created'; ticket_id: string; url: string }
+  | { status: 'failed'; error: string }
+
+export function useTrackdownHandoff(dashboardState: ReturnType<typeof useDashboardState>) {
+  const { state, addLog } = dashboardState
+  const [handoff, setHandoff] = useState<TrackdownHandoff | null>(null)
+
+  const resolveWithTrackdown = useCallback(async (incident: TrackdownIncident) => {
+    const config = getTrackdownConfig()
+    const params = buildTrackdownParams(incident)
+    const bundle = buildTrackdownBundle(incident, {
+      symbol: state.active_symbol,
+      logs: state.logs,
+      performance_history: state.performance_history,
+      scenario_history: state.scenario_history,
+      price_history: state.price_history
+    }, config)
+
+    if (!config.api_url) {
+      params.set('bundle', encodeTrackdownBundle(bundle))
+      window.open(buildTrackdownUrl(params), '_blank')
+      return
+    }
+
+    setHandoff({ status: 'submitting' })
+    try {
+      const ticket = await submitTrackdownBundle(config.api_url, params, bundle, config.headers)
+      params.set('ticket_id', ticket.ticket_id)
+      setHandoff({ status: 'created', ticket_id: ticket.ticket_id, url: ticket.url ?? buildTrackdownUrl(params) })
+      addLog('INFO', `Trackdown ticket ${ticket.ticket_id} created (${bundle.logs.length} logs, ${bundle.metrics.length} samples)`)
+    } catch (err) {
+      const description = describeApiError(err)
+      setHandoff({ status: 'failed', error: description })
+      addLog('ERROR', `Failed to create Trackdown ticket: ${description}`)
+    }
+  }, [state.active_symbol, state.logs, state.performance_history, state.scenario_history, state.price_history, addLog])
+
+  const clearHandoff = useCallback(() => {
+    setHandoff(null)
+  }, [])
+
+  return {
+    handoff,
+    resolveWithTrackdown,
+    clearHandoff
+  }
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { MarketDataTransport, TransportDiagnostics } from '@/lib/transport'
+
+// Transports don't push diagnostics; they're read this often, which also ticks the countdowns
+const REFRESH_INTERVAL_MS = 1000
+
+export function useTransportDiagnostics(transport: MarketDataTransport) {
+  const [diagnostics, setDiagnostics] = useState<TransportDiagnostics>(() => transport.getDiagnostics())
+  // Null until mounted so the server render doesn't depend on the clock
+  const [now, setNow] = useState<number | null>(null)
+
+  const refresh = useCallback(() => {
+    setDiagnostics(transport.getDiagnostics())
+    setNow(Date.now())
+  }, [transport])
+
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  const forceReconnect = useCallback(() => {
+    transport.forceReconnect()
+    refresh()
+  }, [transport, refresh])
+
+  const resetReconnectAttempts = useCallback(() => {
+    transport.resetReconnectAttempts()
+    refresh()
+  }, [transport, refresh])
+
+  return {
+    diagnostics,
+    now,
+    forceReconnect,
+    resetReconnectAttempts
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Operator alerts: desktop notifications (Notification API) and audible
+ * alarms for incidents and the staleness kill switch, so they're noticed with
+ * the tab in the background.
+ *
+ * Both channels are opt-in per browser. Sounds and rate limiting can be tuned
+ * through `window.APP_CONFIG.ALERTS`:
+ *
+ *   ALERTS: {
+ *     min_interval_ms: 30000,
+ *     sounds: { WARNING: false, CRITICAL: { url: '/sounds/alarm.mp3' } }
+ *   }
+ */
+
+import type { Incident } from '@/lib/incidents'
+
+export type AlertSeverity = 'WARNING' | 'CRITICAL' | 'INCIDENT'
+
+/** An audio file to play, or a synthesized tone repeated `repeat` times */
+export interface AlertSound {
+    url?: string
+    frequency_hz?: number
+    duration_ms?: number
+    repeat?: number
+}
+
+export interface AlertsConfig {
+    // Minimum time between alerts with the same key
+    min_interval_ms?: number
+    // false silences a severity
+    sounds?: Partial<Record<AlertSeverity, AlertSound | false>>
+    volume?: number
+}
+
+export interface AlertPreferences {
+    notifications: boolean
+    sound: boolean
+}
+
+export interface Alert {
+    severity: AlertSeverity
+    title: string
+    body: string
+    // Alerts sharing a key are rate limited together
+    key: string
+}
+
+export const DEFAULT_MIN_INTERVAL_MS = 30_000
+
+const DEFAULT_SOUNDS: Record<AlertSeverity, AlertSound> = {
+    WARNING: { frequency_hz: 660, duration_ms: 150, repeat: 1 },
+    INCIDENT: { frequency_hz: 520, duration_ms: 200, repeat: 2 },
+    CRITICAL: { frequency_hz: 880, duration_ms: 180, repeat: 3 }
+}
+
+// Incident types raised by the client itself for protocol-level problems
+const WARNING_INCIDENT_TYPES = new Set(['sequence_gap', 'checksum_mismatch'])
+
+const PREFERENCES_STORAGE_KEY = 'mdm.alerts'
+
+export function getAlertsConfig(): Required<AlertsConfig> {
+    const config = typeof window !== 'undefined' ? window.APP_CONFIG?.ALERTS : undefined
+    return {
+        min_interval_ms: config?.min_interval_ms ?? DEFAULT_MIN_INTERVAL_MS,
+        sounds: { ...DEFAULT_SOUNDS, ...config?.sounds },
+        volume: Math.min(1, Math.max(0, config?.volume ?? 0.3))
+    }
+}
+
+export function getIncidentSeverity(incident: Pick<Incident, 'type'>): AlertSeverity {
+    if (incident.type === 'stale_data') return 'CRITICAL'
+    if (WARNING_INCIDENT_TYPES.has(incident.type)) return 'WARNING'
+    return 'INCIDENT'
+}
+
+export function isNotificationSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window
+}
+
+export function loadAlertPreferences(): AlertPreferences {
+    const fallback: AlertPreferences = { notifications: false, sound: false }
+    if (typeof window === 'undefined') return fallback
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? 'null')
+        return {
+            notifications: stored?.notifications === true,
+            sound: stored?.sound === true
+        }
+    } catch {
+        return fallback
+    }
+}
+
+export function saveAlertPreferences(preferences: AlertPreferences) {
+    try {
+        window.localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences))
+    } catch {
+        // Preferences just won't survive a reload
+    }
+}
+
+/** Tracks when each alert key last fired */
+export class AlertRateLimiter {
+    private lastFired = new Map<string, number>()
+
+    constructor(private minIntervalMs: number) {}
+
+    /** True (and records the alert) when `key` hasn't fired within the interval */
+    tryAcquire(key: string, now: number = Date.now()): boolean {
+        const last = this.lastFired.get(key)
+        if (last !== undefined && now - last < this.minIntervalMs) return false
+        this.lastFired.set(key, now)
+        return true
+    }
+}
+
+export function showNotification(alert: Alert) {
+    if (!isNotificationSupported() || Notification.permission !== 'granted') return
+
+    const notification = new Notification(`${alert.severity}: ${alert.title}`, {
+        body: alert.body,
+        tag: alert.key,
+        requireInteraction: alert.severity === 'CRITICAL'
+    })
+    notification.onclick = () => {
+        window.focus()
+        notification.close()
+    }
+}
+
+/** Play a severity's sound; the AudioContext must have been created from a user gesture */
+export function playAlertSound(context: AudioContext, sound: AlertSound, volume: number) {
+    if (sound.url) {
+        const audio = new Audio(sound.url)
+        audio.volume = volume
+        audio.play().catch(err => console.warn('🔇 Alert sound could not play:', err))
+        return
+    }
+
+    const duration = (sound.duration_ms ?? 150) / 1000
+    const repeat = sound.repeat ?? 1
+    const start = context.currentTime
+
+    for (let i = 0; i < repeat; i++) {
+        const offset = start + i * duration * 2
+        const oscillator = context.createOscillator()
+        const gain = context.createGain()
+        oscillator.frequency.value = sound.frequency_hz ?? 660
+        gain.gain.setValueAtTime(volume, offset)
+        gain.gain.exponentialRampToValueAtTime(0.0001, offset + duration)
+        oscillator.connect(gain).connect(context.destination)
+        oscillator.start(offset)
+        oscillator.stop(offset + duration)
+    }
+}
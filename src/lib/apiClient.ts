@@ -0,0 +1,222 @@
+/**
+ * Typed client for the publisher's REST endpoints. Every call gets a timeout,
+ * idempotent calls retry with backoff, and failures surface as ApiError so
+ * the UI can say what went wrong instead of just logging it.
+ */
+
+import { API_CONFIG, buildApiUrl } from '@/config/api'
+import type { PriceLevel } from '@/lib/orderbook'
+import { normalizeProfiles, type ScenarioProfile } from '@/lib/profiles'
+import { normalizeInstruments, type Instrument } from '@/lib/instruments'
+
+export type ApiErrorKind = 'timeout' | 'network' | 'http' | 'parse' | 'aborted'
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind
+    readonly endpoint: string
+    readonly status: number | null
+    readonly attempts: number
+
+    constructor(kind: ApiErrorKind, endpoint: string, message: string, status: number | null = null, attempts = 1) {
+        super(message)
+        this.name = 'ApiError'
+        this.kind = kind
+        this.endpoint = endpoint
+        this.status = status
+        this.attempts = attempts
+    }
+
+    /** Short description suitable for a log line or inline error */
+    toDisplayString(): string {
+        const retried = this.attempts > 1 ? ` after ${this.attempts} attempts` : ''
+        return `${this.endpoint}: ${this.message}${retried}`
+    }
+}
+
+export function describeApiError(error: unknown): string {
+    if (error instanceof ApiError) return error.toDisplayString()
+    return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export interface HealthResponse {
+    status: string
+    timestamp?: string
+    [key: string]: unknown
+}
+
+export interface PublisherState {
+    is_running: boolean
+    // Age of the publisher's latest data, when the server reports it
+    data_age_ms?: number
+    [key: string]: unknown
+}
+
+export interface PublisherStatusResponse {
+    publisher?: PublisherState
+    [key: string]: unknown
+}
+
+export interface StatusResponse {
+    status?: string
+    current_scenario?: string
+    uptime_seconds?: number
+    publisher?: PublisherState
+    [key: string]: unknown
+}
+
+export interface MetricsSummaryResponse {
+    memory_usage_mb?: number
+    queue_size?: number
+    processing_delay_ms?: number
+    active_clients?: number
+    total_messages_received?: number
+    uptime_seconds?: number
+    [key: string]: unknown
+}
+
+export interface ControlResponse {
+    status?: string
+    message?: string
+    [key: string]: unknown
+}
+
+export interface OrderbookSnapshot {
+    bids?: PriceLevel[]
+    asks?: PriceLevel[]
+    mid_price?: number
+    spread?: number
+    sequence_id?: number
+    timestamp?: string | null
+}
+
+interface RequestOptions {
+    method?: 'GET' | 'POST'
+    // Only idempotent requests should retry; defaults to true for GET
+    retries?: number
+    timeoutMs?: number
+    signal?: AbortSignal
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            reject(new DOMException('Aborted', 'AbortError'))
+        }, { once: true })
+    })
+}
+
+async function attempt<T>(endpoint: string, method: string, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+    }, timeoutMs)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+        let response: Response
+        try {
+            response = await fetch(buildApiUrl(endpoint), {
+                method,
+                headers: method === 'POST' ? { 'Content-Type': 'application/json' } : undefined,
+                signal: controller.signal
+            })
+        } catch (error) {
+            if (timedOut) throw new ApiError('timeout', endpoint, `timed out after ${timeoutMs}ms`)
+            if (signal?.aborted) throw new ApiError('aborted', endpoint, 'request cancelled')
+            throw new ApiError('network', endpoint, error instanceof Error ? error.message : 'network error')
+        }
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '')
+            throw new ApiError('http', endpoint, `HTTP ${response.status}${body ? ` - ${body.slice(0, 200)}` : ''}`, response.status)
+        }
+
+        try {
+            return await response.json() as T
+        } catch {
+            throw new ApiError('parse', endpoint, 'response is not valid JSON', response.status)
+        }
+    } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+    }
+}
+
+function isRetryable(error: ApiError): boolean {
+    // Client errors won't change on retry
+    return error.kind === 'timeout'
+        || error.kind === 'network'
+        || (error.kind === 'http' && (error.status ?? 0) >= 500)
+}
+
+async function request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method ?? 'GET'
+    const retries = options.retries ?? (method === 'GET' ? DEFAULT_RETRIES : 0)
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+            return await attempt<T>(endpoint, method, timeoutMs, options.signal)
+        } catch (error) {
+            const apiError = error as ApiError
+            if (attemptNumber > retries || !isRetryable(apiError)) {
+                throw new ApiError(apiError.kind, endpoint, apiError.message, apiError.status, attemptNumber)
+            }
+
+            const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attemptNumber - 1)
+            console.log(`🔁 Retrying ${method} ${endpoint} in ${delay}ms (${apiError.message})`)
+            try {
+                await sleep(delay, options.signal)
+            } catch {
+                throw new ApiError('aborted', endpoint, 'request cancelled', null, attemptNumber)
+            }
+        }
+    }
+}
+
+const { ENDPOINTS } = API_CONFIG
+
+export const apiClient = {
+    getHealth: (signal?: AbortSignal) =>
+        request<HealthResponse>(ENDPOINTS.HEALTH, { signal }),
+
+    getStatus: (signal?: AbortSignal) =>
+        request<StatusResponse>(ENDPOINTS.STATUS, { signal }),
+
+    getMetricsSummary: (signal?: AbortSignal) =>
+        request<MetricsSummaryResponse>(ENDPOINTS.METRICS, { signal }),
+
+    getPublisherStatus: (signal?: AbortSignal) =>
+        request<PublisherStatusResponse>(ENDPOINTS.PUBLISHER_STATUS, { signal }),
+
+    startPublisher: () =>
+        request<ControlResponse>(ENDPOINTS.START, { method: 'POST' }),
+
+    stopPublisher: () =>
+        request<ControlResponse>(ENDPOINTS.STOP, { method: 'POST' }),
+
+    getProfiles: async (signal?: AbortSignal): Promise<ScenarioProfile[]> =>
+        normalizeProfiles(await request<unknown>(ENDPOINTS.PROFILES, { signal })),
+
+    // Switching to the same profile twice is harmless, so this may retry
+    switchProfile: (name: string) =>
+        request<ControlResponse>(`${ENDPOINTS.PROFILE_SWITCH}/${encodeURIComponent(name)}`, { method: 'POST', retries: DEFAULT_RETRIES }),
+
+    getInstruments: async (signal?: AbortSignal): Promise<Instrument[]> =>
+        normalizeInstruments(await request<unknown>(ENDPOINTS.INSTRUMENTS, { signal })),
+
+    getOrderbookSnapshot: async (symbol: string, signal?: AbortSignal): Promise<OrderbookSnapshot> => {
+        const endpoint = `${ENDPOINTS.ORDERBOOK_SNAPSHOT}?symbol=${encodeURIComponent(symbol)}`
+        const data = await request<OrderbookSnapshot & { orderbook?: OrderbookSnapshot }>(endpoint, { signal })
+        return data.orderbook ?? data
+    }
+}
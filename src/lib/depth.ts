@@ -0,0 +1,37 @@
+/**
+ * Cumulative depth series for the depth chart, built from best-first bid and
+ * ask levels.
+ */
+
+import type { PriceLevel } from '@/lib/orderbook'
+
+export interface DepthPoint {
+    price: number
+    // Cumulative size from the touch out to this level; only set on its own side
+    bid_depth?: number
+    ask_depth?: number
+    distance_bps: number
+}
+
+function distanceBps(price: number, midPrice: number): number {
+    return midPrice > 0 ? ((price - midPrice) / midPrice) * 10000 : 0
+}
+
+function cumulate(levels: PriceLevel[]): { price: number; depth: number }[] {
+    let total = 0
+    return levels.map(([price, size]) => {
+        total += parseFloat(size)
+        return { price: parseFloat(price), depth: total }
+    })
+}
+
+/** Points sorted by ascending price: bids (deepest first) then asks */
+export function buildDepthSeries(bids: PriceLevel[], asks: PriceLevel[], midPrice: number): DepthPoint[] {
+    const bidPoints: DepthPoint[] = cumulate(bids)
+        .reverse()
+        .map(({ price, depth }) => ({ price, bid_depth: depth, distance_bps: distanceBps(price, midPrice) }))
+    const askPoints: DepthPoint[] = cumulate(asks)
+        .map(({ price, depth }) => ({ price, ask_depth: depth, distance_bps: distanceBps(price, midPrice) }))
+
+    return [...bidPoints, ...askPoints]
+}
@@ -0,0 +1,232 @@
+/**
+ * Incident sinks: webhooks incidents are exported to as structured JSON,
+ * configured through `window.APP_CONFIG.INCIDENT_SINKS`:
+ *
+ *   INCIDENT_SINKS: [
+ *     { name: 'ops-slack', url: 'https://hooks.slack.com/services/...', format: 'slack', auto: true },
+ *     { name: 'pagerduty', url: 'https://events.pagerduty.com/v2/enqueue', format: 'pagerduty', routing_key: '...' }
+ *   ]
+ *
+ * Each sink's format picks the formatter that turns the generic payload into
+ * the body it expects; more formats can be added with registerIncidentFormatter.
+ */
+
+import { ApiError } from '@/lib/apiClient'
+import type { Incident } from '@/lib/incidents'
+
+export interface IncidentSinkConfig {
+    name: string
+    url: string
+    // Formatter name: 'json' (default), 'slack' or 'pagerduty'
+    format?: string
+    // PagerDuty Events v2 integration key
+    routing_key?: string
+    headers?: Record<string, string>
+    // Export new incidents automatically instead of only on demand
+    auto?: boolean
+    // Send as a CORS "simple request"; the response can't be read, so delivery is unconfirmed
+    no_cors?: boolean
+}
+
+export interface IncidentLogEntry {
+    timestamp: string
+    level: string
+    message: string
+}
+
+export interface IncidentPayload {
+    source: 'market-data-monitor'
+    sent_at: string
+    incident: Pick<Incident, 'id' | 'type' | 'details' | 'status' | 'timestamp' | 'last_seen' | 'occurrences' | 'scenario' | 'uptime'>
+    symbol: string
+    scenario: string
+    data_age_ms: number | null
+    sequence_id: number | null
+    metrics: Record<string, unknown>
+    recent_logs: IncidentLogEntry[]
+}
+
+export interface IncidentContext {
+    symbol: string
+    scenario: string
+    data_age_ms?: number
+    sequence_id?: number
+    metrics: object
+    logs: { timestamp: Date; level: string; message: string }[]
+}
+
+export type DeliveryStatus = 'sending' | 'sent' | 'unconfirmed' | 'failed'
+
+export interface SinkDelivery {
+    sink: string
+    status: DeliveryStatus
+    attempts: number
+    updated_at: string
+    error?: string
+}
+
+export type IncidentFormatter = (payload: IncidentPayload, sink: IncidentSinkConfig) => unknown
+
+// Logs included with each exported incident
+const RECENT_LOG_COUNT = 20
+const DELIVERY_TIMEOUT_MS = 10_000
+const DELIVERY_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 1000
+
+export function getIncidentSinks(): IncidentSinkConfig[] {
+    const sinks = typeof window !== 'undefined' ? window.APP_CONFIG?.INCIDENT_SINKS : undefined
+    if (!Array.isArray(sinks)) return []
+    return sinks.filter(sink => sink && typeof sink.name === 'string' && typeof sink.url === 'string' && sink.url !== '')
+}
+
+export function buildIncidentPayload(incident: Incident, context: IncidentContext): IncidentPayload {
+    return {
+        source: 'market-data-monitor',
+        sent_at: new Date().toISOString(),
+        incident: {
+            id: incident.id,
+            type: incident.type,
+            details: incident.details,
+            status: incident.status,
+            timestamp: incident.timestamp,
+            last_seen: incident.last_seen,
+            occurrences: incident.occurrences,
+            scenario: incident.scenario,
+            uptime: incident.uptime
+        },
+        symbol: context.symbol,
+        scenario: context.scenario,
+        data_age_ms: context.data_age_ms ?? null,
+        sequence_id: context.sequence_id ?? null,
+        metrics: { ...context.metrics },
+        recent_logs: context.logs.slice(-RECENT_LOG_COUNT).map(log => ({
+            timestamp: log.timestamp.toISOString(),
+            level: log.level,
+            message: log.message
+        }))
+    }
+}
+
+function summarize(payload: IncidentPayload): string {
+    return `${payload.incident.type} on ${payload.symbol}: ${payload.incident.details}`
+}
+
+const formatters = new Map<string, IncidentFormatter>([
+    ['json', payload => payload],
+
+    // Slack incoming webhooks (and compatible: Mattermost, Rocket.Chat)
+    ['slack', payload => ({
+        text: `:rotating_light: ${summarize(payload)}`,
+        blocks: [
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: `*:rotating_light: ${payload.incident.type}* (${payload.incident.status})\n${payload.incident.details}` }
+            },
+            {
+                type: 'section',
+                fields: [
+                    { type: 'mrkdwn', text: `*Symbol*\n${payload.symbol}` },
+                    { type: 'mrkdwn', text: `*Scenario*\n${payload.scenario}` },
+                    { type: 'mrkdwn', text: `*Data age*\n${payload.data_age_ms ?? 'n/a'}ms` },
+                    { type: 'mrkdwn', text: `*Sequence*\n${payload.sequence_id ?? 'n/a'}` }
+                ]
+            },
+            {
+                type: 'context',
+                elements: [{ type: 'mrkdwn', text: `First seen ${payload.incident.timestamp} • ${payload.incident.occurrences} occurrence(s)` }]
+            }
+        ]
+    })],
+
+    // PagerDuty Events API v2
+    ['pagerduty', (payload, sink) => ({
+        routing_key: sink.routing_key,
+        event_action: 'trigger',
+        // Repeats of one incident update the same PagerDuty alert
+        dedup_key: `market-data-monitor-${payload.incident.id}`,
+        payload: {
+            summary: summarize(payload).slice(0, 1024),
+            source: 'market-data-monitor',
+            severity: payload.incident.type === 'stale_data' ? 'critical' : 'error',
+            timestamp: payload.incident.timestamp,
+            component: payload.symbol,
+            group: payload.scenario,
+            class: payload.incident.type,
+            custom_details: {
+                data_age_ms: payload.data_age_ms,
+                sequence_id: payload.sequence_id,
+                occurrences: payload.incident.occurrences,
+                metrics: payload.metrics,
+                recent_logs: payload.recent_logs
+            }
+        }
+    })]
+])
+
+export function registerIncidentFormatter(format: string, formatter: IncidentFormatter) {
+    formatters.set(format, formatter)
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function post(sink: IncidentSinkConfig, body: unknown): Promise<DeliveryStatus> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+
+    try {
+        let response: Response
+        try {
+            response = await fetch(sink.url, {
+                method: 'POST',
+                mode: sink.no_cors ? 'no-cors' : 'cors',
+                headers: { 'Content-Type': sink.no_cors ? 'text/plain' : 'application/json', ...sink.headers },
+                body: JSON.stringify(body),
+                signal: controller.signal
+            })
+        } catch (error) {
+            if (controller.signal.aborted) throw new ApiError('timeout', sink.name, `timed out after ${DELIVERY_TIMEOUT_MS}ms`)
+            throw new ApiError('network', sink.name, error instanceof Error ? error.message : 'network error')
+        }
+
+        if (response.type === 'opaque') return 'unconfirmed'
+        if (!response.ok) {
+            const text = await response.text().catch(() => '')
+            throw new ApiError('http', sink.name, `HTTP ${response.status}${text ? ` - ${text.slice(0, 200)}` : ''}`, response.status)
+        }
+        return 'sent'
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/**
+ * Deliver a payload to one sink, retrying transient failures with backoff.
+ * Failures reject with an ApiError carrying the attempt count.
+ */
+export async function deliverIncident(
+    sink: IncidentSinkConfig,
+    payload: IncidentPayload
+): Promise<{ status: DeliveryStatus; attempts: number }> {
+    const format = sink.format ?? 'json'
+    const formatter = formatters.get(format)
+    if (!formatter) throw new ApiError('parse', sink.name, `unknown sink format "${format}"`)
+    const body = formatter(payload, sink)
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+            return { status: await post(sink, body), attempts: attemptNumber }
+        } catch (error) {
+            const apiError = error as ApiError
+            const retryable = apiError.kind !== 'http' || (apiError.status ?? 0) >= 500 || apiError.status === 429
+            if (attemptNumber > DELIVERY_RETRIES || !retryable) {
+                throw new ApiError(apiError.kind, sink.name, apiError.message, apiError.status, attemptNumber)
+            }
+
+            const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attemptNumber - 1)
+            console.log(`🔁 Retrying incident delivery to ${sink.name} in ${delay}ms (${apiError.message})`)
+            await sleep(delay)
+        }
+    }
+}
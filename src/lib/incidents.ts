@@ -0,0 +1,90 @@
+/**
+ * Incident lifecycle helpers: creation, de-duplication and duration tracking
+ */
+
+export type IncidentStatus = 'open' | 'acknowledged' | 'resolved'
+
+export interface IncidentNote {
+    timestamp: string
+    text: string
+}
+
+export interface NewIncident {
+    timestamp: string
+    type: string
+    details: string
+    scenario: string
+    uptime: number
+}
+
+export interface Incident extends NewIncident {
+    id: string
+    status: IncidentStatus
+    occurrences: number
+    last_seen: string
+    acknowledged_at: string | null
+    resolved_at: string | null
+    notes: IncidentNote[]
+}
+
+// Repeated alerts of these types fold into the existing unresolved incident
+const DEDUPLICATED_TYPES = new Set(['stale_data'])
+
+let incidentCounter = 0
+
+export function createIncident(input: NewIncident): Incident {
+    incidentCounter += 1
+    return {
+        ...input,
+        id: `${Date.parse(input.timestamp) || Date.now()}-${incidentCounter}`,
+        status: 'open',
+        occurrences: 1,
+        last_seen: input.timestamp,
+        acknowledged_at: null,
+        resolved_at: null,
+        notes: []
+    }
+}
+
+/** Add an incident, folding repeats of de-duplicated types into the open one */
+export function mergeIncident(incidents: Incident[], input: NewIncident): Incident[] {
+    if (DEDUPLICATED_TYPES.has(input.type)) {
+        const existing = incidents.find(incident => incident.type === input.type && incident.status !== 'resolved')
+        if (existing) {
+            return incidents.map(incident => incident.id === existing.id
+                ? {
+                    ...incident,
+                    details: input.details,
+                    scenario: input.scenario,
+                    uptime: input.uptime,
+                    occurrences: incident.occurrences + 1,
+                    last_seen: input.timestamp
+                }
+                : incident)
+        }
+    }
+
+    return [...incidents, createIncident(input)]
+}
+
+export function updateIncident(incidents: Incident[], id: string, update: (incident: Incident) => Incident): Incident[] {
+    return incidents.map(incident => incident.id === id ? update(incident) : incident)
+}
+
+/** Milliseconds from first occurrence until resolution, or until now while unresolved */
+export function getIncidentDuration(incident: Incident, now: number = Date.now()): number {
+    const start = Date.parse(incident.timestamp)
+    const end = incident.resolved_at ? Date.parse(incident.resolved_at) : now
+    return Math.max(0, end - start)
+}
+
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000)
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+
+    if (hours > 0) return `${hours}h ${minutes}m`
+    if (minutes > 0) return `${minutes}m ${seconds}s`
+    return `${seconds}s`
+}
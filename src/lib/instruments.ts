@@ -0,0 +1,129 @@
+/**
+ * Instrument metadata (symbol, assets, precision) used to subscribe to and
+ * format a market. Supplied by the server's /instruments endpoint, with
+ * BTC/USDT as the built-in fallback.
+ */
+
+export interface Instrument {
+    symbol: string
+    base_asset: string
+    quote_asset: string
+    // ISO 4217 code prices are formatted in, when the quote asset maps to one (USDT -> USD)
+    currency?: string
+    price_precision: number
+    size_precision: number
+    tick_size: number
+}
+
+export const DEFAULT_SYMBOL = 'BTC/USDT'
+
+export const DEFAULT_INSTRUMENT: Instrument = {
+    symbol: DEFAULT_SYMBOL,
+    base_asset: 'BTC',
+    quote_asset: 'USDT',
+    currency: 'USD',
+    price_precision: 2,
+    size_precision: 4,
+    tick_size: 0.5
+}
+
+const SYMBOL_STORAGE_KEY = 'mdm.symbol'
+
+/** Symbol to start on: the last one picked, else APP_CONFIG.SYMBOL, else BTC/USDT */
+export function getDefaultSymbol(): string {
+    if (typeof window === 'undefined') return DEFAULT_SYMBOL
+    try {
+        const stored = window.localStorage.getItem(SYMBOL_STORAGE_KEY)
+        if (stored) return stored
+    } catch {
+        // localStorage can be unavailable (private mode, sandboxed iframes)
+    }
+    return window.APP_CONFIG?.SYMBOL ?? DEFAULT_SYMBOL
+}
+
+export function rememberSymbol(symbol: string) {
+    try {
+        window.localStorage.setItem(SYMBOL_STORAGE_KEY, symbol)
+    } catch {
+        // Not remembering the choice is harmless
+    }
+}
+
+function decimalsOf(value: number): number {
+    const [, fraction = ''] = String(value).split('.')
+    return fraction.length
+}
+
+/** Best-effort instrument for a symbol the server sent no metadata for */
+export function instrumentFromSymbol(symbol: string): Instrument {
+    if (symbol === DEFAULT_SYMBOL) return DEFAULT_INSTRUMENT
+    const [base_asset = symbol, quote_asset = ''] = symbol.split(/[/\-_]/)
+    return {
+        symbol,
+        base_asset,
+        quote_asset,
+        price_precision: 2,
+        size_precision: 4,
+        tick_size: 0.01
+    }
+}
+
+function toInstrument(raw: unknown): Instrument | null {
+    if (!raw || typeof raw !== 'object') return null
+    const entry = raw as Record<string, unknown>
+    if (typeof entry.symbol !== 'string' || entry.symbol === '') return null
+
+    const fallback = instrumentFromSymbol(entry.symbol)
+    const tickSize = typeof entry.tick_size === 'number' ? entry.tick_size : fallback.tick_size
+
+    return {
+        symbol: entry.symbol,
+        base_asset: typeof entry.base_asset === 'string' ? entry.base_asset : fallback.base_asset,
+        quote_asset: typeof entry.quote_asset === 'string' ? entry.quote_asset : fallback.quote_asset,
+        currency: typeof entry.currency === 'string' ? entry.currency : fallback.currency,
+        price_precision: typeof entry.price_precision === 'number' ? entry.price_precision : decimalsOf(tickSize),
+        size_precision: typeof entry.size_precision === 'number' ? entry.size_precision : fallback.size_precision,
+        tick_size: tickSize
+    }
+}
+
+/** Accepts an array of instruments, optionally wrapped in `{instruments: [...]}` */
+export function normalizeInstruments(payload: unknown): Instrument[] {
+    const body = payload && typeof payload === 'object' && 'instruments' in payload
+        ? (payload as { instruments: unknown }).instruments
+        : payload
+
+    if (!Array.isArray(body)) return []
+    return body
+        .map(toInstrument)
+        .filter((instrument): instrument is Instrument => instrument !== null)
+}
+
+export function findInstrument(instruments: Instrument[], symbol: string): Instrument {
+    return instruments.find(instrument => instrument.symbol === symbol) ?? instrumentFromSymbol(symbol)
+}
+
+// Orderbook grouping steps as multiples of the tick size (0.5 / 1 / 5 / 10 / 50 for BTC/USDT)
+export const GROUPING_MULTIPLIERS = [1, 2, 10, 20, 100]
+
+export function getGroupingStep(instrument: Instrument, multiplier: number): number {
+    return parseFloat((instrument.tick_size * multiplier).toFixed(10))
+}
+
+export function formatInstrumentPrice(price: number, instrument: Instrument): string {
+    const digits = {
+        minimumFractionDigits: instrument.price_precision,
+        maximumFractionDigits: instrument.price_precision
+    }
+
+    if (instrument.currency) {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: instrument.currency, ...digits }).format(price)
+    }
+
+    const formatted = new Intl.NumberFormat('en-US', digits).format(price)
+    return instrument.quote_asset ? `${formatted} ${instrument.quote_asset}` : formatted
+}
+
+export function formatInstrumentSize(size: string | number, instrument: Instrument): string {
+    return (typeof size === 'string' ? parseFloat(size) : size).toFixed(instrument.size_precision)
+}
@@ -0,0 +1,345 @@
+/**
+ * Client-side market data simulator used by the mock transport, so the
+ * dashboard can be demoed and tested without a backend.
+ */
+
+import { generateSampleMetrics } from '@/lib/sampleData'
+import { DEFAULT_INSTRUMENT, type Instrument } from '@/lib/instruments'
+
+export interface MockScenario {
+    description: string
+    // Delay between orderbook updates
+    update_interval_ms: number
+    // Standard deviation of the mid price random walk per update, in USD at BTC prices (scaled per instrument)
+    volatility: number
+    // Baseline data age and how much backlog each update adds (negative drains it)
+    base_data_age_ms: number
+    backlog_growth_ms: number
+    max_backlog_ms: number
+    // Chance per update that a level appears/disappears instead of just resizing
+    level_churn: number
+    // Chance per heartbeat of an injected incident_alert
+    incident_probability: number
+}
+
+export interface MockConfig {
+    // Scenario the simulator starts in
+    scenario?: string
+    // Overrides for built-in scenarios, or additional ones
+    scenarios?: Record<string, Partial<MockScenario>>
+}
+
+const BUILT_IN_SCENARIOS: Record<string, MockScenario> = {
+    'stable-mode': {
+        description: 'Normal operation - Low latency',
+        update_interval_ms: 500,
+        volatility: 0.8,
+        base_data_age_ms: 15,
+        backlog_growth_ms: -20,
+        max_backlog_ms: 0,
+        level_churn: 0.05,
+        incident_probability: 0
+    },
+    'burst-mode': {
+        description: 'High frequency spikes',
+        update_interval_ms: 80,
+        volatility: 2.5,
+        base_data_age_ms: 25,
+        backlog_growth_ms: 4,
+        max_backlog_ms: 2500,
+        level_churn: 0.2,
+        incident_probability: 0.05
+    },
+    'stale-mode': {
+        description: 'Publisher lagging - Stale data',
+        update_interval_ms: 1000,
+        volatility: 0.5,
+        base_data_age_ms: 1200,
+        backlog_growth_ms: 50,
+        max_backlog_ms: 1500,
+        level_churn: 0.02,
+        incident_probability: 0.2
+    }
+}
+
+export function getMockScenarios(): Record<string, MockScenario> {
+    const overrides = typeof window !== 'undefined' ? window.APP_CONFIG?.MOCK?.scenarios : undefined
+    const scenarios = { ...BUILT_IN_SCENARIOS }
+    Object.entries(overrides ?? {}).forEach(([name, override]) => {
+        scenarios[name] = { ...BUILT_IN_SCENARIOS['stable-mode'], ...scenarios[name], ...override }
+    })
+    return scenarios
+}
+
+interface MockMarket {
+    instrument: Instrument
+    // Where the simulated mid price starts
+    base_price: number
+}
+
+const MOCK_MARKETS: MockMarket[] = [
+    { instrument: DEFAULT_INSTRUMENT, base_price: 50500 },
+    {
+        instrument: {
+            symbol: 'ETH/USDT',
+            base_asset: 'ETH',
+            quote_asset: 'USDT',
+            currency: 'USD',
+            price_precision: 2,
+            size_precision: 3,
+            tick_size: 0.05
+        },
+        base_price: 3000
+    },
+    {
+        instrument: {
+            symbol: 'SOL/USDT',
+            base_asset: 'SOL',
+            quote_asset: 'USDT',
+            currency: 'USD',
+            price_precision: 3,
+            size_precision: 2,
+            tick_size: 0.005
+        },
+        base_price: 150
+    }
+]
+
+// Price the scenario volatilities are expressed at
+const VOLATILITY_REFERENCE_PRICE = 50500
+
+// Scenario the simulated publisher falls back to when it recovers
+const RECOVERED_SCENARIO = 'stable-mode'
+
+// Data age above which the simulated server flags updates as stale
+const STALE_THRESHOLD_MS = 100
+const BOOK_DEPTH = 15
+
+const INJECTED_INCIDENT_TYPES = ['memory_pressure', 'queue_overflow', 'upstream_disconnect']
+
+function gaussian(): number {
+    // Box-Muller transform
+    const u = 1 - Math.random()
+    const v = Math.random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+function roundToTick(price: number, tickSize: number): number {
+    // Trim float noise so the same level always maps to the same key
+    return parseFloat((Math.round(price / tickSize) * tickSize).toFixed(10))
+}
+
+export class MarketSimulator {
+    private readonly scenarios = getMockScenarios()
+    private scenarioName = RECOVERED_SCENARIO
+    private market: MockMarket = MOCK_MARKETS[0]
+    private midPrice = 0
+    private bids = new Map<number, number>()
+    private asks = new Map<number, number>()
+    private sequenceId = 0
+    private backlogMs = 0
+    private messagesSent = 0
+    private readonly startedAt = Date.now()
+    private readonly baseMetrics = generateSampleMetrics()
+
+    constructor(symbol?: string) {
+        const initialScenario = typeof window !== 'undefined' ? window.APP_CONFIG?.MOCK?.scenario : undefined
+        if (initialScenario && this.scenarios[initialScenario]) {
+            this.scenarioName = initialScenario
+        }
+
+        this.seedMarket(MOCK_MARKETS.find(market => market.instrument.symbol === symbol) ?? MOCK_MARKETS[0])
+    }
+
+    /** Start a full book on the instrument's tick grid, so the first update only churns it */
+    private seedMarket(market: MockMarket) {
+        this.market = market
+        this.midPrice = market.base_price
+
+        const [bestBid, bestAsk] = this.touchPrices()
+        this.bids = this.seedSide(bestBid, -1)
+        this.asks = this.seedSide(bestAsk, 1)
+    }
+
+    private seedSide(best: number, direction: 1 | -1): Map<number, number> {
+        const { tick_size } = this.market.instrument
+        const side = new Map<number, number>()
+        for (let i = 0; i < BOOK_DEPTH; i++) {
+            side.set(roundToTick(best + direction * i * tick_size, tick_size), 0.5 + Math.random() * (2 + i * 0.5))
+        }
+        return side
+    }
+
+    /** Best bid and ask around the current mid, one tick apart at least */
+    private touchPrices(): [number, number] {
+        const { tick_size } = this.market.instrument
+        const bestBid = roundToTick(this.midPrice - tick_size / 2, tick_size)
+        const bestAsk = Math.max(bestBid + tick_size, roundToTick(this.midPrice + tick_size / 2, tick_size))
+        return [bestBid, bestAsk]
+    }
+
+    getInstruments(): Instrument[] {
+        return MOCK_MARKETS.map(market => market.instrument)
+    }
+
+    getSymbol(): string {
+        return this.market.instrument.symbol
+    }
+
+    /** Switch markets; unknown symbols are ignored and the current market kept */
+    setSymbol(symbol: string): boolean {
+        const market = MOCK_MARKETS.find(candidate => candidate.instrument.symbol === symbol)
+        if (!market) {
+            console.warn(`🎭 Unknown mock instrument ${symbol}, staying on ${this.getSymbol()}`)
+            return false
+        }
+        this.seedMarket(market)
+        return true
+    }
+
+    get scenario(): MockScenario {
+        return this.scenarios[this.scenarioName]
+    }
+
+    getScenarios(): Record<string, MockScenario> {
+        return this.scenarios
+    }
+
+    getScenarioName(): string {
+        return this.scenarioName
+    }
+
+    /** Switch scenarios; unknown names (e.g. server-only profiles) are ignored */
+    setScenario(name: string): boolean {
+        if (!this.scenarios[name]) {
+            console.warn(`🎭 Unknown mock scenario ${name}, staying in ${this.scenarioName}`)
+            return false
+        }
+        this.scenarioName = name
+        return true
+    }
+
+    /**
+     * Bring the simulated publisher back to health, as a real one would be
+     * fixed while the dashboard is halted: calm scenario, backlog drained.
+     */
+    recover() {
+        console.log(`🎭 Mock publisher recovering from ${this.scenarioName} to ${RECOVERED_SCENARIO}`)
+        this.scenarioName = RECOVERED_SCENARIO
+        this.backlogMs = 0
+    }
+
+    /** Age of the data the simulated publisher would send right now */
+    dataAge(): number {
+        return this.scenario.base_data_age_ms + this.backlogMs + Math.random() * 10
+    }
+
+    private churnSide(side: Map<number, number>, best: number, direction: 1 | -1) {
+        const { level_churn } = this.scenario
+        const { tick_size } = this.market.instrument
+        const next = new Map<number, number>()
+
+        for (let i = 0; i < BOOK_DEPTH; i++) {
+            const price = roundToTick(best + direction * i * tick_size, tick_size)
+            const previous = side.get(price)
+
+            if (previous !== undefined && Math.random() > level_churn) {
+                // Existing level: resize a little
+                next.set(price, Math.max(0.0001, previous * (1 + gaussian() * 0.1)))
+            } else if (Math.random() > level_churn / 2) {
+                // New level near the touch is usually thinner than deep in the book
+                next.set(price, 0.5 + Math.random() * (2 + i * 0.5))
+            }
+        }
+
+        return next
+    }
+
+    /** Advance one update: random-walk the mid and churn the levels around it */
+    nextOrderbookUpdate(): Record<string, unknown> {
+        const { volatility, backlog_growth_ms, max_backlog_ms } = this.scenario
+        const { tick_size, price_precision, size_precision, symbol } = this.market.instrument
+
+        const scaledVolatility = volatility * this.market.base_price / VOLATILITY_REFERENCE_PRICE
+        this.midPrice = Math.max(tick_size, this.midPrice + gaussian() * scaledVolatility)
+        // Backlog drains gradually when switching to a calmer scenario instead of vanishing
+        const backlogCeiling = Math.max(max_backlog_ms, this.backlogMs)
+        this.backlogMs = Math.min(backlogCeiling, Math.max(0, this.backlogMs + backlog_growth_ms))
+
+        const [bestBid, bestAsk] = this.touchPrices()
+        this.bids = this.churnSide(this.bids, bestBid, -1)
+        this.asks = this.churnSide(this.asks, bestAsk, 1)
+
+        const bids = [...this.bids.entries()].sort((a, b) => b[0] - a[0])
+        const asks = [...this.asks.entries()].sort((a, b) => a[0] - b[0])
+        const topBid = bids[0]?.[0] ?? bestBid
+        const topAsk = asks[0]?.[0] ?? bestAsk
+        const dataAge = this.dataAge()
+
+        this.sequenceId++
+        this.messagesSent++
+
+        return {
+            symbol,
+            bids: bids.map(([price, size]) => [price.toFixed(price_precision), size.toFixed(size_precision)]),
+            asks: asks.map(([price, size]) => [price.toFixed(price_precision), size.toFixed(size_precision)]),
+            mid_price: (topBid + topAsk) / 2,
+            spread: topAsk - topBid,
+            sequence_id: this.sequenceId,
+            timestamp: new Date(Date.now() - dataAge).toISOString(),
+            data_age_ms: dataAge,
+            is_stale: dataAge > STALE_THRESHOLD_MS,
+            processing_delay_ms: this.processingDelay()
+        }
+    }
+
+    private processingDelay(): number {
+        return Math.round((this.baseMetrics.processing_delay_ms + this.backlogMs / 10 + Math.random() * 5) * 10) / 10
+    }
+
+    nextHeartbeat(): Record<string, unknown> {
+        return {
+            memory_usage_mb: this.baseMetrics.memory_usage_mb + this.backlogMs / 50 + Math.random(),
+            queue_size: Math.round(this.backlogMs / this.scenario.update_interval_ms * 10),
+            processing_delay_ms: this.processingDelay(),
+            server_status: this.backlogMs > 500 ? 'degraded' : 'healthy',
+            active_clients: this.baseMetrics.active_clients,
+            current_scenario: this.scenarioName,
+            uptime_seconds: Math.floor((Date.now() - this.startedAt) / 1000),
+            total_messages_received: this.messagesSent
+        }
+    }
+
+    /** Randomly produce an incident_alert according to the scenario's probability */
+    maybeIncident(): Record<string, unknown> | null {
+        if (Math.random() >= this.scenario.incident_probability) return null
+
+        // Lagging scenarios report stale data alongside the injected failures, not instead of them
+        const types = this.dataAge() > STALE_THRESHOLD_MS
+            ? ['stale_data', ...INJECTED_INCIDENT_TYPES]
+            : INJECTED_INCIDENT_TYPES
+        return this.buildIncident(types[Math.floor(Math.random() * types.length)])
+    }
+
+    buildIncident(type: string): Record<string, unknown> {
+        const uptime = Math.floor((Date.now() - this.startedAt) / 1000)
+        const base = {
+            type,
+            timestamp: new Date().toISOString(),
+            scenario: this.scenarioName,
+            uptime_seconds: uptime
+        }
+
+        if (type === 'stale_data') {
+            return {
+                ...base,
+                data_age_ms: Math.round(this.dataAge()),
+                processing_delay_ms: this.processingDelay(),
+                queue_size: Math.round(this.backlogMs / this.scenario.update_interval_ms * 10),
+                sequence_id: this.sequenceId
+            }
+        }
+
+        return { ...base, details: { source: 'mock-publisher', sequence_id: this.sequenceId } }
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * Locally maintained orderbook used to apply incremental orderbook_delta messages,
+ * plus helpers for displaying price levels
+ */
+
+export type PriceLevel = [string, string]
+
+// Number of levels per side covered by the server checksum
+export const CHECKSUM_DEPTH = 25
+
+// Levels per side the orderbook views can show
+export const VISIBLE_DEPTH_OPTIONS = [10, 15, 25, 50]
+export const DEFAULT_VISIBLE_DEPTH = 15
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let i = 0; i < 256; i++) {
+        let c = i
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[i] = c >>> 0
+    }
+    return table
+})()
+
+export function crc32(input: string): number {
+    let crc = 0xffffffff
+    for (let i = 0; i < input.length; i++) {
+        crc = CRC32_TABLE[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+export class LocalOrderbook {
+    // Keyed by numeric price so "50500.0" and "50500.00" address the same level
+    private bids = new Map<number, PriceLevel>()
+    private asks = new Map<number, PriceLevel>()
+
+    /** Replace the whole book, e.g. from a full orderbook_update or a snapshot */
+    replace(bids: PriceLevel[], asks: PriceLevel[]) {
+        this.bids = new Map(bids.map(level => [parseFloat(level[0]), level]))
+        this.asks = new Map(asks.map(level => [parseFloat(level[0]), level]))
+    }
+
+    /** Apply per-level changes to one side; a size of zero removes the level */
+    applyChanges(side: 'bids' | 'asks', changes: PriceLevel[]) {
+        const book = side === 'bids' ? this.bids : this.asks
+        changes.forEach(([price, size]) => {
+            const key = parseFloat(price)
+            if (parseFloat(size) === 0) {
+                book.delete(key)
+            } else {
+                book.set(key, [price, size])
+            }
+        })
+    }
+
+    /** Bids sorted best (highest) first */
+    getBids(): PriceLevel[] {
+        return [...this.bids.entries()].sort((a, b) => b[0] - a[0]).map(([, level]) => level)
+    }
+
+    /** Asks sorted best (lowest) first */
+    getAsks(): PriceLevel[] {
+        return [...this.asks.entries()].sort((a, b) => a[0] - b[0]).map(([, level]) => level)
+    }
+
+    getMidAndSpread(): { mid_price: number; spread: number } {
+        const bestBid = this.getBids()[0]
+        const bestAsk = this.getAsks()[0]
+        if (!bestBid || !bestAsk) return { mid_price: 0, spread: 0 }
+
+        const bid = parseFloat(bestBid[0])
+        const ask = parseFloat(bestAsk[0])
+        return { mid_price: (bid + ask) / 2, spread: ask - bid }
+    }
+
+    /**
+     * CRC32 over the top levels interleaved as "bidPx:bidSz:askPx:askSz:...",
+     * using the price/size strings exactly as the server sent them.
+     */
+    checksum(depth: number = CHECKSUM_DEPTH): number {
+        const bids = this.getBids().slice(0, depth)
+        const asks = this.getAsks().slice(0, depth)
+        const parts: string[] = []
+        for (let i = 0; i < Math.max(bids.length, asks.length); i++) {
+            if (bids[i]) parts.push(bids[i][0], bids[i][1])
+            if (asks[i]) parts.push(asks[i][0], asks[i][1])
+        }
+        return crc32(parts.join(':'))
+    }
+}
+
+/**
+ * Group best-first levels into price buckets of `step`, summing their sizes.
+ * Bids round down and asks round up, so a bucket never shows a better price
+ * than the levels it contains.
+ */
+export function aggregateLevels(
+    levels: PriceLevel[],
+    side: 'bids' | 'asks',
+    step: number,
+    pricePrecision: number,
+    sizePrecision: number
+): PriceLevel[] {
+    if (step <= 0) return levels
+
+    const round = side === 'bids' ? Math.floor : Math.ceil
+    // Best-first input keeps the buckets best-first too
+    const buckets = new Map<number, number>()
+    levels.forEach(([price, size]) => {
+        // Nudge by an epsilon so float noise doesn't push an exact multiple into the next bucket
+        const units = parseFloat(price) / step
+        const bucket = parseFloat((round(side === 'bids' ? units + 1e-9 : units - 1e-9) * step).toFixed(10))
+        buckets.set(bucket, (buckets.get(bucket) ?? 0) + parseFloat(size))
+    })
+
+    return [...buckets.entries()].map(([price, size]) => [price.toFixed(pricePrecision), size.toFixed(sizePrecision)])
+}
+
+export type LevelChangeKind = 'new' | 'increased' | 'decreased'
+
+export interface LevelChange {
+    kind: LevelChangeKind
+    // Signed size change; the full size for new levels
+    delta: number
+}
+
+export interface LevelDiff {
+    // Keyed by numeric price of levels in the new book
+    changes: Map<number, LevelChange>
+    removed: PriceLevel[]
+}
+
+/** Per-level differences between two versions of one side of the book */
+export function diffLevels(previous: PriceLevel[], next: PriceLevel[]): LevelDiff {
+    const previousSizes = new Map(previous.map(([price, size]) => [parseFloat(price), parseFloat(size)]))
+    const changes = new Map<number, LevelChange>()
+
+    next.forEach(([price, size]) => {
+        const key = parseFloat(price)
+        const newSize = parseFloat(size)
+        const oldSize = previousSizes.get(key)
+        previousSizes.delete(key)
+
+        if (oldSize === undefined) {
+            changes.set(key, { kind: 'new', delta: newSize })
+        } else if (newSize !== oldSize) {
+            changes.set(key, { kind: newSize > oldSize ? 'increased' : 'decreased', delta: newSize - oldSize })
+        }
+    })
+
+    // Whatever wasn't matched by a level in the new book has been removed
+    const removed = previous.filter(([price]) => previousSizes.has(parseFloat(price)))
+    return { changes, removed }
+}
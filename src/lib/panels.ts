@@ -0,0 +1,243 @@
+/**
+ * Dashboard grid layout: which panels are shown, in what order and how much
+ * of the 12-column grid each one spans. The current layout and any named
+ * presets the user saves are remembered in localStorage.
+ */
+
+export type PanelId =
+    | 'system-health'
+    | 'orderbook'
+    | 'events-rate'
+    | 'depth'
+    | 'price-history'
+    | 'performance'
+    | 'metrics'
+    | 'logs'
+    | 'orderbook-detail'
+    | 'incidents'
+    | 'diagnostics'
+
+export interface PanelPlacement {
+    id: PanelId
+    // Grid columns (of GRID_COLUMNS) and rows (of GRID_ROW_HEIGHT_PX) the panel spans
+    col_span: number
+    row_span: number
+    hidden: boolean
+}
+
+export interface DashboardLayout {
+    // Panels in display order; the grid packs them left to right, top to bottom
+    panels: PanelPlacement[]
+}
+
+export interface LayoutPreset {
+    name: string
+    layout: DashboardLayout
+    // Built-in presets ship with the dashboard and can't be overwritten or deleted
+    builtin?: boolean
+}
+
+export const GRID_COLUMNS = 12
+export const GRID_ROW_HEIGHT_PX = 40
+export const GRID_GAP_PX = 16
+
+const MAX_ROW_SPAN = 30
+
+export const PANEL_LABELS: Record<PanelId, string> = {
+    'system-health': 'System Health',
+    'orderbook': 'Order Book',
+    'events-rate': 'Update Rate',
+    'depth': 'Market Depth',
+    'price-history': 'Price History',
+    'performance': 'Performance',
+    'metrics': 'System Metrics',
+    'logs': 'Logs',
+    'orderbook-detail': 'Orderbook Detail',
+    'incidents': 'Incidents',
+    'diagnostics': 'Connection Diagnostics'
+}
+
+const PANEL_IDS = Object.keys(PANEL_LABELS) as PanelId[]
+
+function placement(id: PanelId, col_span: number, row_span: number, hidden = false): PanelPlacement {
+    return { id, col_span, row_span, hidden }
+}
+
+export const DEFAULT_LAYOUT: DashboardLayout = {
+    panels: [
+        placement('system-health', 12, 3),
+        placement('orderbook', 6, 16),
+        placement('events-rate', 6, 16),
+        placement('depth', 6, 8),
+        placement('price-history', 6, 8),
+        placement('incidents', 12, 9),
+        placement('performance', 6, 12, true),
+        placement('metrics', 3, 12, true),
+        placement('logs', 3, 12, true),
+        placement('orderbook-detail', 6, 14, true),
+        placement('diagnostics', 6, 12, true)
+    ]
+}
+
+export const BUILTIN_PRESETS: LayoutPreset[] = [
+    { name: 'Default', layout: DEFAULT_LAYOUT, builtin: true },
+    {
+        name: 'Trading',
+        builtin: true,
+        layout: {
+            panels: [
+                placement('orderbook', 5, 20),
+                placement('depth', 7, 10),
+                placement('price-history', 7, 10),
+                placement('incidents', 12, 8),
+                placement('system-health', 12, 3, true),
+                placement('events-rate', 6, 12, true),
+                placement('performance', 6, 12, true),
+                placement('metrics', 3, 12, true),
+                placement('logs', 3, 12, true),
+                placement('orderbook-detail', 6, 14, true),
+                placement('diagnostics', 6, 12, true)
+            ]
+        }
+    },
+    {
+        name: 'Diagnostics',
+        builtin: true,
+        layout: {
+            panels: [
+                placement('system-health', 12, 3),
+                placement('performance', 8, 12),
+                placement('metrics', 4, 12),
+                placement('events-rate', 6, 10),
+                placement('logs', 6, 10),
+                placement('diagnostics', 6, 12),
+                placement('incidents', 6, 12),
+                placement('orderbook', 6, 16, true),
+                placement('depth', 6, 8, true),
+                placement('price-history', 6, 8, true),
+                placement('orderbook-detail', 6, 14, true)
+            ]
+        }
+    }
+]
+
+const LAYOUT_STORAGE_KEY = 'mdm.layout'
+const PRESETS_STORAGE_KEY = 'mdm.layout.presets'
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(max, Math.max(min, Math.round(value)))
+        : fallback
+}
+
+/**
+ * Validate a stored layout against the current panel set: unknown panels are
+ * dropped and panels added since it was saved are appended, hidden.
+ */
+export function normalizeLayout(raw: unknown): DashboardLayout {
+    const entries = raw && typeof raw === 'object' && Array.isArray((raw as DashboardLayout).panels)
+        ? (raw as { panels: unknown[] }).panels
+        : []
+
+    const panels: PanelPlacement[] = []
+    entries.forEach(entry => {
+        if (!entry || typeof entry !== 'object') return
+        const candidate = entry as Record<string, unknown>
+        const id = candidate.id as PanelId
+        if (!PANEL_IDS.includes(id) || panels.some(panel => panel.id === id)) return
+
+        const fallback = DEFAULT_LAYOUT.panels.find(panel => panel.id === id)!
+        panels.push({
+            id,
+            col_span: clamp(candidate.col_span, 1, GRID_COLUMNS, fallback.col_span),
+            row_span: clamp(candidate.row_span, 1, MAX_ROW_SPAN, fallback.row_span),
+            hidden: candidate.hidden === true
+        })
+    })
+
+    if (panels.length === 0) return DEFAULT_LAYOUT
+
+    DEFAULT_LAYOUT.panels
+        .filter(panel => !panels.some(existing => existing.id === panel.id))
+        .forEach(panel => panels.push({ ...panel, hidden: true }))
+
+    return { panels }
+}
+
+/** Move `id` to the position currently held by `targetId` */
+export function movePanel(layout: DashboardLayout, id: PanelId, targetId: PanelId): DashboardLayout {
+    if (id === targetId) return layout
+    const moving = layout.panels.find(panel => panel.id === id)
+    if (!moving) return layout
+
+    const remaining = layout.panels.filter(panel => panel.id !== id)
+    const targetIndex = layout.panels.findIndex(panel => panel.id === targetId)
+    const sourceIndex = layout.panels.findIndex(panel => panel.id === id)
+    // Dragging forward lands after the target, dragging backward lands before it
+    const insertAt = remaining.findIndex(panel => panel.id === targetId) + (sourceIndex < targetIndex ? 1 : 0)
+
+    return { panels: [...remaining.slice(0, insertAt), moving, ...remaining.slice(insertAt)] }
+}
+
+export function resizePanel(layout: DashboardLayout, id: PanelId, colSpan: number, rowSpan: number): DashboardLayout {
+    return {
+        panels: layout.panels.map(panel => panel.id === id
+            ? {
+                ...panel,
+                col_span: clamp(colSpan, 1, GRID_COLUMNS, panel.col_span),
+                row_span: clamp(rowSpan, 1, MAX_ROW_SPAN, panel.row_span)
+            }
+            : panel)
+    }
+}
+
+export function setPanelHidden(layout: DashboardLayout, id: PanelId, hidden: boolean): DashboardLayout {
+    return { panels: layout.panels.map(panel => panel.id === id ? { ...panel, hidden } : panel) }
+}
+
+function readStorage(key: string): unknown {
+    try {
+        return JSON.parse(window.localStorage.getItem(key) ?? 'null')
+    } catch {
+        // Unavailable storage and corrupt entries both read as nothing saved
+        return null
+    }
+}
+
+function writeStorage(key: string, value: unknown) {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value))
+    } catch {
+        // Not remembering the layout is harmless
+    }
+}
+
+export function loadLayout(): DashboardLayout {
+    if (typeof window === 'undefined') return DEFAULT_LAYOUT
+    const stored = readStorage(LAYOUT_STORAGE_KEY)
+    return stored ? normalizeLayout(stored) : DEFAULT_LAYOUT
+}
+
+export function saveLayout(layout: DashboardLayout) {
+    writeStorage(LAYOUT_STORAGE_KEY, layout)
+}
+
+/** Built-in presets followed by the user's own */
+export function loadPresets(): LayoutPreset[] {
+    if (typeof window === 'undefined') return BUILTIN_PRESETS
+    const stored = readStorage(PRESETS_STORAGE_KEY)
+    const custom = Array.isArray(stored)
+        ? stored
+            .filter((entry): entry is { name: string; layout: unknown } =>
+                !!entry && typeof entry === 'object' && typeof entry.name === 'string' && entry.name.trim() !== '')
+            .filter(entry => !BUILTIN_PRESETS.some(preset => preset.name === entry.name))
+            .map(entry => ({ name: entry.name, layout: normalizeLayout(entry.layout) }))
+        : []
+    return [...BUILTIN_PRESETS, ...custom]
+}
+
+export function savePresets(presets: LayoutPreset[]) {
+    writeStorage(PRESETS_STORAGE_KEY, presets
+        .filter(preset => !preset.builtin)
+        .map(({ name, layout }) => ({ name, layout })))
+}
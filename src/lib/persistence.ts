@@ -0,0 +1,164 @@
+/**
+ * IndexedDB persistence for dashboard history (incidents, logs, performance samples)
+ *
+ * Opt-in: enabled through `window.APP_CONFIG.PERSISTENCE.enabled` or the
+ * toggle in the dashboard, which is remembered in localStorage.
+ */
+
+import type { Incident } from '@/lib/incidents'
+
+const DB_NAME = 'market-data-monitor'
+const DB_VERSION = 1
+const STORES = ['incidents', 'logs', 'performance'] as const
+const ENABLED_STORAGE_KEY = 'mdm.persistence.enabled'
+
+export const DEFAULT_RETENTION = 500
+
+export interface PersistenceConfig {
+    enabled?: boolean
+    // Maximum records kept per store
+    retention?: number
+}
+
+export interface PersistedLogEntry {
+    timestamp: Date
+    level: string
+    message: string
+}
+
+export interface PersistedPerformanceSample {
+    timestamp: Date
+    memory: number
+    queue: number
+    processing_delay: number
+    message_rate: number
+}
+
+export interface PersistedSession {
+    incidents: Incident[]
+    logs: PersistedLogEntry[]
+    performance: PersistedPerformanceSample[]
+}
+
+export function getPersistenceConfig(): Required<PersistenceConfig> {
+    const config = typeof window !== 'undefined' ? window.APP_CONFIG?.PERSISTENCE : undefined
+    return {
+        enabled: config?.enabled ?? false,
+        retention: config?.retention ?? DEFAULT_RETENTION
+    }
+}
+
+export function isPersistenceEnabled(): boolean {
+    if (typeof window === 'undefined') return false
+    const stored = window.localStorage.getItem(ENABLED_STORAGE_KEY)
+    return stored === null ? getPersistenceConfig().enabled : stored === 'true'
+}
+
+export function setPersistenceEnabled(enabled: boolean) {
+    window.localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled))
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+    })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains('incidents')) {
+            db.createObjectStore('incidents', { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains('logs')) {
+            db.createObjectStore('logs', { autoIncrement: true })
+        }
+        if (!db.objectStoreNames.contains('performance')) {
+            db.createObjectStore('performance', { autoIncrement: true })
+        }
+    }
+    return requestToPromise(request)
+}
+
+export async function loadSession(): Promise<PersistedSession> {
+    const db = await openDatabase()
+    try {
+        const transaction = db.transaction([...STORES], 'readonly')
+        const [incidents, logs, performance] = await Promise.all([
+            requestToPromise(transaction.objectStore('incidents').getAll()),
+            requestToPromise(transaction.objectStore('logs').getAll()),
+            requestToPromise(transaction.objectStore('performance').getAll())
+        ])
+        return {
+            incidents: (incidents as Incident[]).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+            logs: logs as PersistedLogEntry[],
+            performance: performance as PersistedPerformanceSample[]
+        }
+    } finally {
+        db.close()
+    }
+}
+
+/** Delete the oldest records of an autoIncrement store beyond the retention limit */
+async function trimStore(store: IDBObjectStore, retention: number) {
+    const excess = await requestToPromise(store.count()) - retention
+    if (excess <= 0) return
+    const oldestKeys = await requestToPromise(store.getAllKeys(null, excess))
+    store.delete(IDBKeyRange.upperBound(oldestKeys[oldestKeys.length - 1]))
+}
+
+/**
+ * Add entries recorded since the last save and drop the oldest beyond the
+ * retention limit. Incidents change after they're raised, so the ones passed
+ * in are written over their stored copies.
+ */
+export async function appendSession(session: PersistedSession, retention: number = getPersistenceConfig().retention) {
+    const db = await openDatabase()
+    try {
+        const transaction = db.transaction([...STORES], 'readwrite')
+        const stores = {
+            incidents: transaction.objectStore('incidents'),
+            logs: transaction.objectStore('logs'),
+            performance: transaction.objectStore('performance')
+        }
+
+        session.incidents.slice(-retention).forEach(incident => stores.incidents.put(incident))
+        session.logs.slice(-retention).forEach(log => stores.logs.add(log))
+        session.performance.slice(-retention).forEach(sample => stores.performance.add(sample))
+
+        await Promise.all([
+            transactionDone(transaction),
+            trimStore(stores.logs, retention),
+            trimStore(stores.performance, retention),
+            requestToPromise(stores.incidents.getAll()).then(stored => {
+                (stored as Incident[])
+                    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+                    .slice(0, Math.max(0, stored.length - retention))
+                    .forEach(incident => stores.incidents.delete(incident.id))
+            })
+        ])
+    } finally {
+        db.close()
+    }
+}
+
+export async function clearSession() {
+    const db = await openDatabase()
+    try {
+        const transaction = db.transaction([...STORES], 'readwrite')
+        STORES.forEach(name => transaction.objectStore(name).clear())
+        await transactionDone(transaction)
+    } finally {
+        db.close()
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Rolling history of top-of-book prices, one sample per applied orderbook
+ * update, tagged with the staleness level at the time so price action can be
+ * lined up against staleness events.
+ */
+
+import type { StalenessLevel } from '@/lib/stalenessPolicy'
+
+export interface PriceSample {
+    timestamp: number
+    mid: number
+    best_bid: number
+    best_ask: number
+    spread: number
+    staleness_level: StalenessLevel
+    // Sequence id of the update that produced the sample
+    sequence_id: number
+}
+
+export interface PriceHistoryWindow {
+    label: string
+    ms: number
+}
+
+export const PRICE_HISTORY_WINDOWS: PriceHistoryWindow[] = [
+    { label: '1m', ms: 60_000 },
+    { label: '5m', ms: 5 * 60_000 },
+    { label: '15m', ms: 15 * 60_000 }
+]
+
+// Samples are kept for the longest window, and never more than this many
+const MAX_HISTORY_MS = Math.max(...PRICE_HISTORY_WINDOWS.map(option => option.ms))
+const MAX_SAMPLES = 20_000
+
+export interface StalenessSpan {
+    start: number
+    end: number
+    level: Exclude<StalenessLevel, 'ok'>
+}
+
+/** Sample for a book's top of book, or null while either side is empty */
+export function samplePrices(
+    bids: [string, string][],
+    asks: [string, string][],
+    stalenessLevel: StalenessLevel,
+    sequenceId: number,
+    timestamp: number = Date.now()
+): PriceSample | null {
+    if (bids.length === 0 || asks.length === 0) return null
+
+    const bestBid = parseFloat(bids[0][0])
+    const bestAsk = parseFloat(asks[0][0])
+    return {
+        timestamp,
+        mid: (bestBid + bestAsk) / 2,
+        best_bid: bestBid,
+        best_ask: bestAsk,
+        spread: bestAsk - bestBid,
+        staleness_level: stalenessLevel,
+        sequence_id: sequenceId
+    }
+}
+
+export function appendPriceSample(samples: PriceSample[], sample: PriceSample): PriceSample[] {
+    const cutoff = sample.timestamp - MAX_HISTORY_MS
+    const firstKept = samples.findIndex(existing => existing.timestamp >= cutoff)
+    const retained = firstKept === -1 ? [] : samples.slice(firstKept)
+    return [...retained.slice(-(MAX_SAMPLES - 1)), sample]
+}
+
+export function samplesInWindow(samples: PriceSample[], windowMs: number, now: number = Date.now()): PriceSample[] {
+    const cutoff = now - windowMs
+    return samples.filter(sample => sample.timestamp >= cutoff)
+}
+
+/** Contiguous runs of samples at a non-ok staleness level */
+export function stalenessSpans(samples: PriceSample[]): StalenessSpan[] {
+    const spans: StalenessSpan[] = []
+    let current: StalenessSpan | null = null
+
+    samples.forEach(sample => {
+        if (sample.staleness_level === 'ok') {
+            current = null
+        } else if (current && current.level === sample.staleness_level) {
+            current.end = sample.timestamp
+        } else {
+            current = { start: sample.timestamp, end: sample.timestamp, level: sample.staleness_level }
+            spans.push(current)
+        }
+    })
+    return spans
+}
+
+/** Evenly thin out samples for charting, always keeping the latest one */
+export function downsample(samples: PriceSample[], maxPoints: number): PriceSample[] {
+    if (samples.length <= maxPoints) return samples
+    const stride = Math.ceil(samples.length / maxPoints)
+    return samples.filter((_, index) => (samples.length - 1 - index) % stride === 0)
+}
@@ -0,0 +1,90 @@
+/**
+ * Scenario profiles as exposed by the publisher's /config/profiles endpoint
+ * (or the offline simulator), normalised into one shape for the UI.
+ */
+
+import type { MockScenario } from '@/lib/mockPublisher'
+
+export interface ScenarioProfile {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+}
+
+// Accent colours cycled across profiles in the order they are listed
+const PROFILE_ACCENTS = [
+    { dot: 'bg-emerald-500', badge: 'text-blue-600 bg-blue-50' },
+    { dot: 'bg-yellow-500', badge: 'text-yellow-600 bg-yellow-50' },
+    { dot: 'bg-red-500', badge: 'text-red-600 bg-red-50' },
+    { dot: 'bg-purple-500', badge: 'text-purple-600 bg-purple-50' },
+    { dot: 'bg-sky-500', badge: 'text-sky-600 bg-sky-50' }
+]
+
+function toProfile(name: string, raw: unknown): ScenarioProfile {
+    const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    const { description, parameters, ...rest } = entry
+    delete rest.name
+
+    return {
+        name,
+        description: typeof description === 'string' ? description : '',
+        // Servers either nest parameters or list them alongside the description
+        parameters: parameters && typeof parameters === 'object'
+            ? parameters as Record<string, unknown>
+            : rest
+    }
+}
+
+/**
+ * Accepts the profile list as an array of `{name, ...}` entries or a map of
+ * name to profile, optionally wrapped in `{profiles: ...}`.
+ */
+export function normalizeProfiles(payload: unknown): ScenarioProfile[] {
+    const body = payload && typeof payload === 'object' && 'profiles' in payload
+        ? (payload as { profiles: unknown }).profiles
+        : payload
+
+    if (Array.isArray(body)) {
+        return body
+            .map(entry => typeof entry === 'string'
+                ? toProfile(entry, {})
+                : toProfile(String((entry as Record<string, unknown>)?.name ?? ''), entry))
+            .filter(profile => profile.name !== '')
+    }
+
+    if (body && typeof body === 'object') {
+        return Object.entries(body).map(([name, entry]) => toProfile(name, entry))
+    }
+
+    return []
+}
+
+export function profilesFromMockScenarios(scenarios: Record<string, MockScenario>): ScenarioProfile[] {
+    return Object.entries(scenarios).map(([name, { description, ...parameters }]) => ({
+        name,
+        description,
+        parameters
+    }))
+}
+
+/** "burst-mode" -> "Burst Mode" */
+export function formatProfileName(name: string): string {
+    return name
+        .split(/[-_\s]+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join(' ')
+}
+
+export function getProfileAccent(profiles: ScenarioProfile[], name: string) {
+    const index = profiles.findIndex(profile => profile.name === name)
+    return index === -1
+        ? { dot: 'bg-gray-400', badge: 'text-gray-600 bg-gray-100' }
+        : PROFILE_ACCENTS[index % PROFILE_ACCENTS.length]
+}
+
+export function formatProfileParameters(parameters: Record<string, unknown>): string {
+    return Object.entries(parameters)
+        .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+        .join('\n')
+}
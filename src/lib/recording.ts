@@ -0,0 +1,71 @@
+/**
+ * Recording of the raw market data stream, exported as newline-delimited JSON
+ * so staleness incidents can be replayed later without a live server.
+ */
+
+import type { MarketDataMessage, MarketDataTransport } from '@/lib/transport'
+
+export interface RecordedMessage {
+  // Arrival time in ms since epoch, used to reproduce the original pacing
+  received_at: number
+  message: MarketDataMessage
+}
+
+export class SessionRecorder {
+  private messages: RecordedMessage[] = []
+  private unsubscribe: (() => void) | null = null
+
+  start(transport: MarketDataTransport) {
+    this.stop()
+    this.messages = []
+    this.unsubscribe = transport.subscribe(
+      () => {},
+      (message) => {
+        this.messages.push({ received_at: Date.now(), message })
+      },
+      () => {}
+    )
+  }
+
+  stop() {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null
+  }
+
+  getMessages(): RecordedMessage[] {
+    return this.messages
+  }
+}
+
+export function toNDJSON(messages: RecordedMessage[]): string {
+  return messages.map(entry => JSON.stringify(entry)).join('\n') + '\n'
+}
+
+export function parseNDJSON(text: string): RecordedMessage[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      const entry = JSON.parse(line) as Partial<RecordedMessage>
+      if (typeof entry.received_at !== 'number' || !entry.message || typeof entry.message.type !== 'string') {
+        throw new Error(`Invalid recording entry on line ${index + 1}`)
+      }
+      return entry as RecordedMessage
+    })
+}
+
+export function downloadRecording(messages: RecordedMessage[], filename: string = `market-data-${new Date().toISOString()}.ndjson`) {
+  const blob = new Blob([toNDJSON(messages)], { type: 'application/x-ndjson' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking right away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,78 @@
+/**
+ * Recovery after the staleness kill switch: the feed is reconnected once the
+ * publisher's data age has been healthy for a while, and a circuit breaker
+ * stops automatic retries when the switch keeps tripping. Configured through
+ * `window.APP_CONFIG.RECOVERY`:
+ *
+ *   RECOVERY: {
+ *     auto: true,
+ *     healthy_for_ms: 10000,
+ *     max_trips: 3,
+ *     trip_window_ms: 600000
+ *   }
+ */
+
+export interface RecoveryConfig {
+    // Reconnect automatically; otherwise only the Resume button reconnects
+    auto?: boolean
+    // How long the publisher's data age must stay healthy before reconnecting
+    healthy_for_ms?: number
+    // Data age counted as healthy; defaults to the staleness policy's warn threshold
+    healthy_data_age_ms?: number
+    poll_interval_ms?: number
+    // Automatic recovery stops once the kill switch trips this often within trip_window_ms
+    max_trips?: number
+    trip_window_ms?: number
+}
+
+export type RecoveryPolicy = Required<Omit<RecoveryConfig, 'healthy_data_age_ms'>> & Pick<RecoveryConfig, 'healthy_data_age_ms'>
+
+export const DEFAULT_RECOVERY_POLICY: RecoveryPolicy = {
+    auto: false,
+    healthy_for_ms: 10_000,
+    poll_interval_ms: 1000,
+    max_trips: 3,
+    trip_window_ms: 10 * 60_000
+}
+
+export function getRecoveryPolicy(): RecoveryPolicy {
+    const config = typeof window !== 'undefined' ? window.APP_CONFIG?.RECOVERY : undefined
+    return { ...DEFAULT_RECOVERY_POLICY, ...config }
+}
+
+/** Counts kill switch trips; open (no automatic recovery) while too many fall inside the window */
+export class RecoveryCircuitBreaker {
+    private trips: number[] = []
+
+    constructor(private maxTrips: number, private windowMs: number) {}
+
+    recordTrip(now: number = Date.now()) {
+        this.trips = [...this.trips.filter(trip => now - trip < this.windowMs), now]
+    }
+
+    recentTrips(now: number = Date.now()): number {
+        return this.trips.filter(trip => now - trip < this.windowMs).length
+    }
+
+    isOpen(now: number = Date.now()): boolean {
+        return this.recentTrips(now) >= this.maxTrips
+    }
+
+    reset() {
+        this.trips = []
+    }
+}
+
+/**
+ * When the data age has been healthy since, given the previous value; null
+ * while it's unhealthy or unknown.
+ */
+export function trackHealthySince(
+    healthySince: number | null,
+    dataAgeMs: number | null,
+    healthyDataAgeMs: number,
+    now: number = Date.now()
+): number | null {
+    if (dataAgeMs === null || dataAgeMs > healthyDataAgeMs) return null
+    return healthySince ?? now
+}
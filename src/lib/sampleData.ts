@@ -1,5 +1,4 @@
-export function generateSampleOrderbook() {
-    const basePrice = 50500
+export function generateSampleOrderbook(basePrice: number = 50500) {
     const bids: [string, string][] = []
     const asks: [string, string][] = []
 
@@ -0,0 +1,30 @@
+/**
+ * Sequence id bookkeeping for the orderbook_update stream
+ */
+
+export type SequenceCheck =
+    | { status: 'initial' }
+    | { status: 'in_order' }
+    | { status: 'gap'; missing: number }
+    | { status: 'duplicate' }
+    | { status: 'out_of_order'; behindBy: number }
+
+export function checkSequence(lastSequenceId: number, nextSequenceId: number): SequenceCheck {
+    // Nothing applied yet (fresh session or after a reconnect), accept whatever arrives
+    if (lastSequenceId <= 0) return { status: 'initial' }
+
+    if (nextSequenceId === lastSequenceId + 1) return { status: 'in_order' }
+    if (nextSequenceId === lastSequenceId) return { status: 'duplicate' }
+    if (nextSequenceId < lastSequenceId) return { status: 'out_of_order', behindBy: lastSequenceId - nextSequenceId }
+
+    return { status: 'gap', missing: nextSequenceId - lastSequenceId - 1 }
+}
+
+// Delay before another snapshot request after failed ones, doubling per failure
+const RESYNC_BASE_DELAY_MS = 1000
+const RESYNC_MAX_DELAY_MS = 30_000
+
+export function resyncBackoffMs(failures: number): number {
+    if (failures <= 0) return 0
+    return Math.min(RESYNC_MAX_DELAY_MS, RESYNC_BASE_DELAY_MS * Math.pow(2, failures - 1))
+}
@@ -0,0 +1,112 @@
+/**
+ * Staleness policy: a single place that decides how old market data may get
+ * before the dashboard warns, degrades or halts trading.
+ *
+ * Defaults can be overridden at runtime through `window.APP_CONFIG.STALENESS`,
+ * optionally per scenario:
+ *
+ *   STALENESS: {
+ *     halt_ms: 500,
+ *     scenarios: { 'burst-mode': { halt_ms: 1500, consecutive_samples: 3 } }
+ *   }
+ */
+
+export type StalenessLevel = 'ok' | 'warn' | 'degrade' | 'halt'
+
+export interface StalenessPolicy {
+    warn_ms: number
+    degrade_ms: number
+    halt_ms: number
+    // Only count samples the server itself flagged with is_stale
+    require_stale_flag: boolean
+    // Samples in a row beyond a threshold before its level applies
+    consecutive_samples: number
+    // Alternatively, at least window_samples beyond the threshold within window_ms (0 disables)
+    window_ms: number
+    window_samples: number
+}
+
+export interface StalenessConfig extends Partial<StalenessPolicy> {
+    scenarios?: Record<string, Partial<StalenessPolicy>>
+}
+
+export interface StalenessSample {
+    timestamp: number
+    data_age_ms: number
+    is_stale: boolean
+}
+
+export const DEFAULT_STALENESS_POLICY: StalenessPolicy = {
+    warn_ms: 100,
+    degrade_ms: 200,
+    halt_ms: 300,
+    require_stale_flag: true,
+    consecutive_samples: 1,
+    window_ms: 5000,
+    window_samples: 0
+}
+
+export const STALENESS_LEVEL_STYLES: Record<StalenessLevel, { label: string; badge: string; text: string }> = {
+    ok: { label: 'LIVE', badge: 'text-blue-500 bg-blue-50', text: 'text-emerald-500' },
+    warn: { label: 'SLOW', badge: 'text-yellow-500 bg-yellow-50', text: 'text-yellow-500' },
+    degrade: { label: 'STALE', badge: 'text-red-500 bg-red-50', text: 'text-red-500' },
+    halt: { label: 'HALTED', badge: 'text-red-700 bg-red-100', text: 'text-red-600' }
+}
+
+const LEVEL_RANK: Record<StalenessLevel, number> = { ok: 0, warn: 1, degrade: 2, halt: 3 }
+
+// Upper bound on retained samples regardless of the configured window
+const MAX_SAMPLES = 500
+
+export function getStalenessPolicy(scenario?: string): StalenessPolicy {
+    const config = typeof window !== 'undefined' ? window.APP_CONFIG?.STALENESS : undefined
+    const { scenarios, ...overrides } = config ?? {}
+    const scenarioOverrides = scenario ? scenarios?.[scenario] : undefined
+
+    return { ...DEFAULT_STALENESS_POLICY, ...overrides, ...scenarioOverrides }
+}
+
+/** Level a single sample would reach on its own */
+export function classifySample(sample: Omit<StalenessSample, 'timestamp'>, policy: StalenessPolicy): StalenessLevel {
+    if (policy.require_stale_flag && !sample.is_stale) return 'ok'
+    if (sample.data_age_ms > policy.halt_ms) return 'halt'
+    if (sample.data_age_ms > policy.degrade_ms) return 'degrade'
+    if (sample.data_age_ms > policy.warn_ms) return 'warn'
+    return 'ok'
+}
+
+function isLevelActive(samples: StalenessSample[], policy: StalenessPolicy, level: StalenessLevel): boolean {
+    const reaches = (sample: StalenessSample) => LEVEL_RANK[classifySample(sample, policy)] >= LEVEL_RANK[level]
+
+    const required = Math.max(1, policy.consecutive_samples)
+    if (samples.length >= required && samples.slice(-required).every(reaches)) {
+        return true
+    }
+
+    if (policy.window_samples > 0 && samples.length > 0) {
+        const windowStart = samples[samples.length - 1].timestamp - policy.window_ms
+        const hits = samples.filter(sample => sample.timestamp >= windowStart && reaches(sample)).length
+        if (hits >= policy.window_samples) return true
+    }
+
+    return false
+}
+
+/** Highest level whose consecutive-sample or time-window rule is satisfied */
+export function evaluateStaleness(samples: StalenessSample[], policy: StalenessPolicy): StalenessLevel {
+    const levels: StalenessLevel[] = ['halt', 'degrade', 'warn']
+    return levels.find(level => isLevelActive(samples, policy, level)) ?? 'ok'
+}
+
+/** Append a sample, keeping only what the policy's rules can still look at */
+export function appendSample(samples: StalenessSample[], sample: StalenessSample, policy: StalenessPolicy): StalenessSample[] {
+    const windowStart = sample.timestamp - policy.window_ms
+    const keep = Math.max(1, policy.consecutive_samples)
+    const next = [...samples, sample].slice(-MAX_SAMPLES)
+
+    return next.filter((entry, index) => entry.timestamp >= windowStart || index >= next.length - keep)
+}
+
+export function isMoreSevere(a: StalenessLevel, b: StalenessLevel): boolean {
+    return LEVEL_RANK[a] > LEVEL_RANK[b]
+}
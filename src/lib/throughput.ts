@@ -0,0 +1,37 @@
+/**
+ * Message throughput helpers: the current rate from raw arrival times, and
+ * percentiles over the rates sampled into the performance history.
+ */
+
+// Arrival times older than this don't count towards the current rate
+export const RATE_WINDOW_MS = 5000
+
+export interface ThroughputSummary {
+    p50: number
+    p95: number
+    max: number
+    samples: number
+}
+
+/** Messages per second over the last RATE_WINDOW_MS */
+export function messageRate(timestamps: number[], now: number = Date.now()): number {
+    const recent = timestamps.filter(timestamp => now - timestamp < RATE_WINDOW_MS)
+    return recent.length / (RATE_WINDOW_MS / 1000)
+}
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0
+    const rank = Math.ceil((p / 100) * sorted.length)
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]
+}
+
+export function summarizeThroughput(rates: number[]): ThroughputSummary {
+    const sorted = [...rates].sort((a, b) => a - b)
+    return {
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+        samples: sorted.length
+    }
+}
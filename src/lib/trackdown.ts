@@ -0,0 +1,257 @@
+/**
+ * Trackdown handoff for the staleness kill switch. Besides the time, date,
+ * message and data age, the handoff carries a context bundle: recent logs,
+ * the performance samples around the incident, the scenario history and the
+ * range of sequence ids seen before it.
+ *
+ * By default the bundle is encoded compactly into the Trackdown URL. With an
+ * API endpoint configured it is posted instead and the ticket id shown:
+ *
+ *   TRACKDOWN: {
+ *     api_url: 'https://trackdown.example.com/api/tickets',
+ *     headers: { Authorization: 'Bearer ...' }
+ *   }
+ */
+
+import { ApiError } from '@/lib/apiClient'
+
+export interface TrackdownConfig {
+    // Endpoint the bundle is POSTed to; without it the bundle goes in the URL
+    api_url?: string
+    headers?: Record<string, string>
+    // Most recent log entries included
+    log_count?: number
+    // Performance samples within this long either side of the incident
+    metrics_window_ms?: number
+}
+
+export interface TrackdownIncident {
+    data_age_ms: number
+    timestamp: string
+}
+
+export interface TrackdownLogEntry {
+    timestamp: string
+    level: string
+    message: string
+}
+
+export interface TrackdownMetricSample {
+    timestamp: string
+    memory_mb: number
+    queue_size: number
+    processing_delay_ms: number
+    message_rate: number
+}
+
+export interface TrackdownBundle {
+    version: 1
+    symbol: string
+    incident_at: string
+    data_age_ms: number
+    logs: TrackdownLogEntry[]
+    metrics: TrackdownMetricSample[]
+    scenario_history: { scenario: string; since: string }[]
+    sequence_range: { first: number; last: number } | null
+}
+
+export interface TrackdownContext {
+    symbol: string
+    logs: { timestamp: Date; level: string; message: string }[]
+    performance_history: {
+        timestamps: Date[]
+        memory: number[]
+        queue: number[]
+        processing_delay: number[]
+        message_rate: number[]
+    }
+    scenario_history: { scenario: string; since: string }[]
+    price_history: { timestamp: number; sequence_id: number }[]
+}
+
+export interface TrackdownTicket {
+    ticket_id: string
+    // Link to the ticket when the API returns one
+    url?: string
+}
+
+const DEFAULT_LOG_COUNT = 50
+const DEFAULT_METRICS_WINDOW_MS = 120_000
+const SUBMIT_TIMEOUT_MS = 10_000
+// Keeps the whole URL well inside what browsers and proxies accept
+const MAX_URL_BUNDLE_CHARS = 6000
+
+export function getTrackdownConfig(): TrackdownConfig & { log_count: number; metrics_window_ms: number } {
+    const config = typeof window !== 'undefined' ? window.APP_CONFIG?.TRACKDOWN : undefined
+    return {
+        api_url: config?.api_url || undefined,
+        headers: config?.headers,
+        log_count: config?.log_count ?? DEFAULT_LOG_COUNT,
+        metrics_window_ms: config?.metrics_window_ms ?? DEFAULT_METRICS_WINDOW_MS
+    }
+}
+
+export function buildTrackdownBundle(
+    incident: TrackdownIncident,
+    context: TrackdownContext,
+    config: { log_count: number; metrics_window_ms: number } = getTrackdownConfig()
+): TrackdownBundle {
+    const incidentAt = Date.parse(incident.timestamp)
+    const history = context.performance_history
+
+    const metrics: TrackdownMetricSample[] = []
+    history.timestamps.forEach((timestamp, i) => {
+        if (Math.abs(timestamp.getTime() - incidentAt) > config.metrics_window_ms) return
+        metrics.push({
+            timestamp: timestamp.toISOString(),
+            memory_mb: history.memory[i],
+            queue_size: history.queue[i],
+            processing_delay_ms: history.processing_delay[i],
+            message_rate: history.message_rate[i]
+        })
+    })
+
+    const sequenceIds = context.price_history
+        .filter(sample => sample.timestamp <= incidentAt && sample.sequence_id > 0)
+        .map(sample => sample.sequence_id)
+
+    return {
+        version: 1,
+        symbol: context.symbol,
+        incident_at: incident.timestamp,
+        data_age_ms: incident.data_age_ms,
+        logs: context.logs.slice(-config.log_count).map(log => ({
+            timestamp: log.timestamp.toISOString(),
+            level: log.level,
+            message: log.message
+        })),
+        metrics,
+        scenario_history: context.scenario_history,
+        sequence_range: sequenceIds.length > 0
+            ? { first: Math.min(...sequenceIds), last: Math.max(...sequenceIds) }
+            : null
+    }
+}
+
+function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text)
+    let binary = ''
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte)
+    })
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Compact form for the URL: field names dropped in favour of tuples and
+ * times as millisecond offsets from the incident, then base64url encoded.
+ */
+function encodeCompact(bundle: TrackdownBundle): string {
+    const origin = Date.parse(bundle.incident_at)
+    const offset = (timestamp: string) => Date.parse(timestamp) - origin
+
+    return toBase64Url(JSON.stringify([
+        bundle.version,
+        bundle.symbol,
+        origin,
+        bundle.data_age_ms,
+        bundle.logs.map(log => [offset(log.timestamp), log.level, log.message]),
+        bundle.metrics.map(sample => [
+            offset(sample.timestamp),
+            sample.memory_mb,
+            sample.queue_size,
+            sample.processing_delay_ms,
+            sample.message_rate
+        ]),
+        bundle.scenario_history.map(change => [offset(change.since), change.scenario]),
+        bundle.sequence_range ? [bundle.sequence_range.first, bundle.sequence_range.last] : null
+    ]))
+}
+
+/** Encode a bundle for the URL, dropping the oldest logs and samples until it fits */
+export function encodeTrackdownBundle(bundle: TrackdownBundle, maxChars: number = MAX_URL_BUNDLE_CHARS): string {
+    let trimmed = bundle
+    let encoded = encodeCompact(trimmed)
+
+    while (encoded.length > maxChars && (trimmed.logs.length > 0 || trimmed.metrics.length > 0)) {
+        trimmed = {
+            ...trimmed,
+            logs: trimmed.logs.slice(Math.ceil(trimmed.logs.length / 2)),
+            metrics: trimmed.metrics.slice(Math.ceil(trimmed.metrics.length / 2))
+        }
+        encoded = encodeCompact(trimmed)
+    }
+    return encoded
+}
+
+/** Query parameters the Trackdown UI reads for a staleness incident */
+export function buildTrackdownParams(incident: TrackdownIncident): URLSearchParams {
+    const incidentDate = new Date(incident.timestamp)
+    const time = incidentDate.toISOString().split('T')[1].split('.')[0] + ' UTC'
+    const date_input = incidentDate.toISOString().split('T')[0]
+    const data_age = incident.data_age_ms.toFixed(2)
+
+    const message = `Error: Data staleness detected: orderbook aged ${data_age}ms on date ${date_input} at time ${time}`
+
+    return new URLSearchParams({
+        time: time,
+        date_input: date_input,
+        message: message,
+        repository: process.env.NEXT_PUBLIC_REPOSITORY || 'abhimanyu891998/trackdownmvpserver26jun',
+        application: process.env.NEXT_PUBLIC_APPLICATION || 'marketdata-publisher',
+        data_age: `${data_age}ms`
+    })
+}
+
+export function buildTrackdownUrl(params: URLSearchParams): string {
+    return `${process.env.NEXT_PUBLIC_TRACKDOWN_UI_URL}?${params.toString()}`
+}
+
+/** POST the handoff to the Trackdown API and return the ticket it created */
+export async function submitTrackdownBundle(
+    apiUrl: string,
+    params: URLSearchParams,
+    bundle: TrackdownBundle,
+    headers?: Record<string, string>
+): Promise<TrackdownTicket> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), SUBMIT_TIMEOUT_MS)
+
+    try {
+        let response: Response
+        try {
+            response = await fetch(apiUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...headers },
+                body: JSON.stringify({ ...Object.fromEntries(params), context: bundle }),
+                signal: controller.signal
+            })
+        } catch (error) {
+            if (controller.signal.aborted) throw new ApiError('timeout', 'trackdown', `timed out after ${SUBMIT_TIMEOUT_MS}ms`)
+            throw new ApiError('network', 'trackdown', error instanceof Error ? error.message : 'network error')
+        }
+
+        if (!response.ok) {
+            const text = await response.text().catch(() => '')
+            throw new ApiError('http', 'trackdown', `HTTP ${response.status}${text ? ` - ${text.slice(0, 200)}` : ''}`, response.status)
+        }
+
+        let data: { ticket_id?: unknown; id?: unknown; url?: unknown }
+        try {
+            data = await response.json()
+        } catch {
+            throw new ApiError('parse', 'trackdown', 'response is not valid JSON', response.status)
+        }
+
+        const ticketId = data.ticket_id ?? data.id
+        if (typeof ticketId !== 'string' && typeof ticketId !== 'number') {
+            throw new ApiError('parse', 'trackdown', 'response has no ticket_id', response.status)
+        }
+        return {
+            ticket_id: String(ticketId),
+            url: typeof data.url === 'string' ? data.url : undefined
+        }
+    } finally {
+        clearTimeout(timer)
+    }
+}
@@ -0,0 +1,295 @@
+import { getDefaultSymbol } from '@/lib/instruments'
+import type {
+  ConnectionListener,
+  ConnectionState,
+  ConnectionStateChange,
+  ErrorListener,
+  MarketDataMessage,
+  MarketDataTransport,
+  MessageListener,
+  TransportDiagnostics,
+  TransportKind
+} from './types'
+
+// Connection state changes kept for diagnostics
+const MAX_STATE_HISTORY = 50
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Subscriber fan-out, JSON parsing, reconnect/backoff and connection
+ * diagnostics shared by every transport. Subclasses only open and close the
+ * underlying socket.
+ */
+export abstract class BaseTransport implements MarketDataTransport {
+  abstract readonly kind: TransportKind
+  abstract readonly label: string
+
+  protected isConnecting = false
+  protected reconnectAttempts = 0
+  protected maxReconnectAttempts = 5
+  protected baseDelay = 2000
+  private reconnectTimeout: NodeJS.Timeout | null = null
+  protected symbol = getDefaultSymbol()
+
+  // Diagnostics
+  private connectionState: ConnectionState = 'idle'
+  private stateHistory: ConnectionStateChange[] = []
+  private nextRetryAt: number | null = null
+  private lastError: string | null = null
+  private lastErrorAt: number | null = null
+  private connectedSince: number | null = null
+  private bytesReceived = 0
+  private messagesReceived = 0
+  private lastMessageAt: number | null = null
+  private lastKeepaliveAt: number | null = null
+
+  // Subscribers for connection state and messages
+  private connectionSubscribers = new Set<ConnectionListener>()
+  private messageSubscribers = new Set<MessageListener>()
+  private errorSubscribers = new Set<ErrorListener>()
+
+  /** Create the underlying connection and wire its events to the handle* methods */
+  protected abstract openConnection(): void
+
+  /** Tear down the underlying connection without triggering reconnects */
+  protected abstract closeConnection(): void
+
+  abstract isConnected(): boolean
+
+  /** Stream URL shown in diagnostics; in-browser transports have none */
+  protected describeUrl(): string | null {
+    return null
+  }
+
+  private setConnectionState(state: ConnectionState, detail?: string) {
+    this.connectionState = state
+    this.stateHistory = [...this.stateHistory.slice(-(MAX_STATE_HISTORY - 1)), { state, at: Date.now(), detail }]
+  }
+
+  getDiagnostics(): TransportDiagnostics {
+    return {
+      kind: this.kind,
+      label: this.label,
+      url: this.describeUrl(),
+      state: this.connectionState,
+      history: this.stateHistory,
+      reconnect_attempts: this.reconnectAttempts,
+      max_reconnect_attempts: this.maxReconnectAttempts,
+      next_retry_at: this.nextRetryAt,
+      last_error: this.lastError,
+      last_error_at: this.lastErrorAt,
+      connected_since: this.connectedSince,
+      bytes_received: this.bytesReceived,
+      messages_received: this.messagesReceived,
+      last_message_at: this.lastMessageAt,
+      last_keepalive_at: this.lastKeepaliveAt
+    }
+  }
+
+  getSymbol(): string {
+    return this.symbol
+  }
+
+  setSymbol(symbol: string) {
+    if (symbol === this.symbol) return
+    console.log(`🔀 ${this.label} switching symbol ${this.symbol} -> ${symbol}`)
+    this.symbol = symbol
+    this.handleSymbolChange()
+  }
+
+  /** Resubscribe after a symbol switch; server streams reconnect with the new subscription */
+  protected handleSymbolChange() {
+    if (this.isConnected() || this.isConnecting) {
+      this.disconnect()
+      this.connect()
+    }
+  }
+
+  subscribe(
+    onConnectionChange: ConnectionListener,
+    onMessage: MessageListener,
+    onError: ErrorListener
+  ) {
+    this.connectionSubscribers.add(onConnectionChange)
+    this.messageSubscribers.add(onMessage)
+    this.errorSubscribers.add(onError)
+
+    // If already connected, notify immediately
+    if (this.isConnected()) {
+      onConnectionChange(true)
+    }
+
+    // Return unsubscribe function
+    return () => {
+      this.connectionSubscribers.delete(onConnectionChange)
+      this.messageSubscribers.delete(onMessage)
+      this.errorSubscribers.delete(onError)
+    }
+  }
+
+  protected notifyConnectionChange(connected: boolean) {
+    this.connectionSubscribers.forEach(callback => {
+      try {
+        callback(connected)
+      } catch (error) {
+        console.error('Error in connection subscriber:', error)
+      }
+    })
+  }
+
+  protected notifyMessage(message: MarketDataMessage) {
+    this.messagesReceived++
+    this.lastMessageAt = Date.now()
+    if (message.type === 'keepalive') {
+      this.lastKeepaliveAt = this.lastMessageAt
+    }
+
+    this.messageSubscribers.forEach(callback => {
+      try {
+        callback(message)
+      } catch (error) {
+        console.error('Error in message subscriber:', error)
+      }
+    })
+  }
+
+  protected notifyError(error: string) {
+    this.lastError = error
+    this.lastErrorAt = Date.now()
+
+    this.errorSubscribers.forEach(callback => {
+      try {
+        callback(error)
+      } catch (error) {
+        console.error('Error in error subscriber:', error)
+      }
+    })
+  }
+
+  connect() {
+    // Prevent multiple simultaneous connection attempts
+    if (this.isConnecting) {
+      console.log(`🔄 ${this.label} connection already in progress, skipping`)
+      return
+    }
+
+    // Don't reconnect if already connected
+    if (this.isConnected()) {
+      console.log(`✅ ${this.label} already connected, skipping`)
+      return
+    }
+
+    // Check reconnection attempts
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.error(`❌ Max ${this.label} reconnection attempts reached`)
+      this.setConnectionState('failed', 'Max reconnection attempts reached')
+      this.notifyError('Max reconnection attempts reached')
+      return
+    }
+
+    this.isConnecting = true
+    this.nextRetryAt = null
+    this.setConnectionState('connecting', `Attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts}`)
+    console.log(`🔌 Creating ${this.label} connection (attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts})`)
+
+    // Clean up existing connection
+    this.cleanup()
+
+    try {
+      this.openConnection()
+    } catch (error) {
+      console.error(`❌ Error creating ${this.label} connection:`, error)
+      this.isConnecting = false
+      this.setConnectionState('disconnected', error instanceof Error ? error.message : undefined)
+      this.notifyError(`Failed to create ${this.label} connection`)
+    }
+  }
+
+  protected handleOpen() {
+    console.log(`✅ ${this.label} connected successfully`)
+    this.isConnecting = false
+    this.reconnectAttempts = 0 // Reset on successful connection
+    this.connectedSince = Date.now()
+    this.setConnectionState('connected')
+    this.notifyConnectionChange(true)
+  }
+
+  protected handleRawMessage(raw: string) {
+    this.bytesReceived += textEncoder.encode(raw).length
+    try {
+      const message: MarketDataMessage = JSON.parse(raw)
+      this.notifyMessage(message)
+    } catch (error) {
+      console.error(`❌ Error parsing ${this.label} message:`, error)
+    }
+  }
+
+  /**
+   * Called by subclasses when the connection drops. Schedules a reconnect with
+   * exponential backoff unless the closure was expected.
+   */
+  protected handleConnectionLost(shouldReconnect: boolean = true) {
+    this.isConnecting = false
+    this.connectedSince = null
+
+    if (!shouldReconnect) {
+      this.setConnectionState('disconnected', 'Closed by server')
+      this.notifyConnectionChange(false)
+      this.reconnectAttempts = 0
+      return
+    }
+
+    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+      const delay = this.baseDelay * Math.pow(2, this.reconnectAttempts)
+      this.reconnectAttempts++
+      this.nextRetryAt = Date.now() + delay
+      this.setConnectionState('reconnecting', `Retry ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`)
+      this.notifyConnectionChange(false)
+
+      console.log(`🔄 Scheduling ${this.label} reconnect in ${delay}ms`)
+
+      this.reconnectTimeout = setTimeout(() => {
+        this.connect()
+      }, delay)
+    } else {
+      this.setConnectionState('failed', 'Max reconnection attempts reached')
+      this.notifyConnectionChange(false)
+      this.notifyError(`${this.label} connection failed - max attempts reached`)
+    }
+  }
+
+  private cleanup() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+    this.nextRetryAt = null
+
+    this.closeConnection()
+  }
+
+  disconnect() {
+    this.cleanup()
+    this.isConnecting = false
+    this.reconnectAttempts = 0
+    this.connectedSince = null
+    // Reconnecting and failed transports already reported the loss
+    const wasLive = this.connectionState === 'connected' || this.connectionState === 'connecting'
+    if (this.connectionState !== 'idle' && this.connectionState !== 'disconnected') {
+      this.setConnectionState('disconnected')
+    }
+    if (wasLive) this.notifyConnectionChange(false)
+  }
+
+  forceReconnect() {
+    console.log(`🔁 Forcing ${this.label} reconnect`)
+    this.disconnect()
+    this.connect()
+  }
+
+  resetReconnectAttempts() {
+    console.log(`↩️ Resetting ${this.label} reconnect attempts (was ${this.reconnectAttempts})`)
+    this.reconnectAttempts = 0
+  }
+}
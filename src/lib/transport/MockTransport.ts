@@ -0,0 +1,92 @@
+import { MarketSimulator } from '@/lib/mockPublisher'
+import { BaseTransport } from './BaseTransport'
+import type { MarketDataMessage } from './types'
+
+const HEARTBEAT_INTERVAL_MS = 1000
+const KEEPALIVE_INTERVAL_MS = 15000
+
+/**
+ * Offline publisher: emits simulated connection, orderbook_update, heartbeat,
+ * keepalive and incident_alert messages with no server behind it.
+ */
+export class MockTransport extends BaseTransport {
+  readonly kind = 'mock' as const
+  readonly label = 'Mock'
+  readonly simulator: MarketSimulator
+  private connected = false
+  private updateTimeout: NodeJS.Timeout | null = null
+  private heartbeatInterval: NodeJS.Timeout | null = null
+  private keepaliveInterval: NodeJS.Timeout | null = null
+
+  constructor() {
+    super()
+    this.simulator = new MarketSimulator(this.symbol)
+    // The simulator may not know the remembered symbol and fall back to its first instrument
+    this.symbol = this.simulator.getSymbol()
+  }
+
+  protected openConnection() {
+    this.connected = true
+    this.handleOpen()
+    this.emit('connection', { message: 'Mock publisher connected' })
+
+    this.scheduleUpdate()
+    this.heartbeatInterval = setInterval(() => {
+      this.emit('heartbeat', this.simulator.nextHeartbeat())
+
+      const incident = this.simulator.maybeIncident()
+      if (incident) {
+        this.emit('incident_alert', incident)
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+    this.keepaliveInterval = setInterval(() => {
+      this.emit('keepalive', {})
+    }, KEEPALIVE_INTERVAL_MS)
+  }
+
+  protected closeConnection() {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+      this.updateTimeout = null
+    }
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval)
+      this.heartbeatInterval = null
+    }
+    if (this.keepaliveInterval) {
+      clearInterval(this.keepaliveInterval)
+      this.keepaliveInterval = null
+    }
+    this.connected = false
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  protected handleSymbolChange() {
+    // The simulator switches markets in place, no reconnect needed
+    if (!this.simulator.setSymbol(this.symbol)) {
+      this.symbol = this.simulator.getSymbol()
+    }
+  }
+
+  setScenario(name: string) {
+    if (this.simulator.setScenario(name)) {
+      console.log(`🎭 Mock publisher switched to ${name}`)
+    }
+  }
+
+  private scheduleUpdate() {
+    // Re-read the interval every tick so scenario switches apply immediately
+    this.updateTimeout = setTimeout(() => {
+      this.emit('orderbook_update', this.simulator.nextOrderbookUpdate())
+      this.scheduleUpdate()
+    }, this.simulator.scenario.update_interval_ms)
+  }
+
+  private emit(type: string, data: Record<string, unknown>) {
+    const message: MarketDataMessage = { type, data, timestamp: new Date().toISOString() }
+    this.notifyMessage(message)
+  }
+}
@@ -0,0 +1,166 @@
+import type { RecordedMessage } from '@/lib/recording'
+import { BaseTransport } from './BaseTransport'
+
+export interface ReplayState {
+  position: number
+  total: number
+  speed: number
+  playing: boolean
+}
+
+/**
+ * Plays a recorded message stream back through the normal transport
+ * interface, so the dashboard handles it exactly like live data.
+ */
+export class ReplayTransport extends BaseTransport {
+  readonly kind = 'replay' as const
+  readonly label = 'Replay'
+  private messages: RecordedMessage[]
+  private position = 0
+  private speed = 1
+  private playing = false
+  private connected = false
+  private playbackTimeout: NodeJS.Timeout | null = null
+  private stateSubscribers = new Set<(state: ReplayState) => void>()
+
+  constructor(messages: RecordedMessage[]) {
+    super()
+    this.messages = messages
+    // Subscribe the dashboard to the symbol the recording was captured on
+    const recorded = messages.find(entry => typeof entry.message.data?.symbol === 'string')
+    if (recorded) {
+      this.symbol = recorded.message.data.symbol as string
+    }
+  }
+
+  protected openConnection() {
+    this.connected = true
+    this.handleOpen()
+    this.playing = true
+    this.scheduleNext()
+  }
+
+  protected closeConnection() {
+    this.clearPlayback()
+    this.connected = false
+    this.playing = false
+    this.notifyState()
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  // A recording holds whatever symbol it was captured on
+  protected handleSymbolChange() {}
+
+  getState(): ReplayState {
+    return {
+      position: this.position,
+      total: this.messages.length,
+      speed: this.speed,
+      playing: this.playing
+    }
+  }
+
+  subscribeToState(callback: (state: ReplayState) => void) {
+    this.stateSubscribers.add(callback)
+    callback(this.getState())
+    return () => {
+      this.stateSubscribers.delete(callback)
+    }
+  }
+
+  play() {
+    if (!this.connected) {
+      this.connect()
+      return
+    }
+    if (this.playing) return
+
+    this.playing = true
+    this.scheduleNext()
+  }
+
+  pause() {
+    this.clearPlayback()
+    this.playing = false
+    this.notifyState()
+  }
+
+  /** Rewind to the first message and play the recording again */
+  restart() {
+    this.clearPlayback()
+    this.position = 0
+    this.playing = false
+    this.play()
+  }
+
+  /** Emit exactly one message while paused */
+  step() {
+    if (!this.connected) {
+      this.connected = true
+      this.handleOpen()
+    }
+    this.pause()
+    this.emitNext()
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed
+    // Reschedule so the pending delay picks up the new speed
+    if (this.playing) {
+      this.clearPlayback()
+      this.scheduleNext()
+    }
+    this.notifyState()
+  }
+
+  private emitNext() {
+    const entry = this.messages[this.position]
+    if (!entry) return
+
+    this.position++
+    this.notifyMessage(entry.message)
+    this.notifyState()
+  }
+
+  private scheduleNext() {
+    if (this.position >= this.messages.length) {
+      this.playing = false
+      this.notifyState()
+      return
+    }
+
+    const previous = this.messages[this.position - 1]
+    const next = this.messages[this.position]
+    const delay = previous ? Math.max(0, next.received_at - previous.received_at) / this.speed : 0
+
+    this.playbackTimeout = setTimeout(() => {
+      this.playbackTimeout = null
+      this.emitNext()
+      if (this.playing) {
+        this.scheduleNext()
+      }
+    }, delay)
+    this.notifyState()
+  }
+
+  private clearPlayback() {
+    if (this.playbackTimeout) {
+      clearTimeout(this.playbackTimeout)
+      this.playbackTimeout = null
+    }
+  }
+
+  private notifyState() {
+    const state = this.getState()
+    this.stateSubscribers.forEach(callback => {
+      try {
+        callback(state)
+      } catch (error) {
+        console.error('Error in replay state subscriber:', error)
+      }
+    })
+  }
+}
@@ -0,0 +1,46 @@
+import { buildSSEUrl } from '@/config/api'
+import { BaseTransport } from './BaseTransport'
+
+export class SSETransport extends BaseTransport {
+  readonly kind = 'sse' as const
+  readonly label = 'SSE'
+  private eventSource: EventSource | null = null
+
+  protected openConnection() {
+    this.eventSource = new EventSource(buildSSEUrl(this.symbol))
+
+    this.eventSource.onopen = () => {
+      this.handleOpen()
+    }
+
+    this.eventSource.onmessage = (event) => {
+      this.handleRawMessage(event.data)
+    }
+
+    this.eventSource.onerror = (event) => {
+      console.error('❌ SSE error:', event)
+
+      // EventSource retries on its own; close it so backoff stays under our control
+      this.closeConnection()
+      this.handleConnectionLost()
+    }
+  }
+
+  protected closeConnection() {
+    if (this.eventSource) {
+      this.eventSource.onopen = null
+      this.eventSource.onmessage = null
+      this.eventSource.onerror = null
+      this.eventSource.close()
+      this.eventSource = null
+    }
+  }
+
+  protected describeUrl(): string {
+    return buildSSEUrl(this.symbol)
+  }
+
+  isConnected(): boolean {
+    return this.eventSource?.readyState === EventSource.OPEN || false
+  }
+}
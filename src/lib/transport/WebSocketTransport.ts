@@ -0,0 +1,57 @@
+import { buildWebSocketUrl } from '@/config/api'
+import { BaseTransport } from './BaseTransport'
+
+export class WebSocketTransport extends BaseTransport {
+  readonly kind = 'websocket' as const
+  readonly label = 'WebSocket'
+  private ws: WebSocket | null = null
+
+  protected openConnection() {
+    this.ws = new WebSocket(buildWebSocketUrl(this.symbol))
+
+    this.ws.onopen = () => {
+      this.handleOpen()
+    }
+
+    this.ws.onmessage = (event) => {
+      this.handleRawMessage(event.data)
+    }
+
+    this.ws.onclose = (event) => {
+      console.log(`🔌 WebSocket disconnected: ${event.code} - ${event.reason}`)
+      this.ws = null
+
+      // Auto-reconnect on unexpected closures only
+      const closedNormally = event.code === 1000 || event.code === 1001
+      this.handleConnectionLost(!closedNormally)
+    }
+
+    this.ws.onerror = (event) => {
+      console.error('❌ WebSocket error:', event)
+      this.isConnecting = false
+      this.notifyError('WebSocket connection error')
+    }
+  }
+
+  protected closeConnection() {
+    if (this.ws) {
+      this.ws.onopen = null
+      this.ws.onmessage = null
+      this.ws.onclose = null
+      this.ws.onerror = null
+
+      if (this.ws.readyState === WebSocket.OPEN) {
+        this.ws.close(1000, 'Cleanup')
+      }
+      this.ws = null
+    }
+  }
+
+  protected describeUrl(): string {
+    return buildWebSocketUrl(this.symbol)
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN || false
+  }
+}
@@ -0,0 +1,82 @@
+import { API_CONFIG } from '@/config/api'
+import { SSETransport } from './SSETransport'
+import { WebSocketTransport } from './WebSocketTransport'
+import { MockTransport } from './MockTransport'
+import type { MarketDataTransport, TransportKind } from './types'
+
+export type {
+  ConnectionState,
+  ConnectionStateChange,
+  MarketDataMessage,
+  MarketDataTransport,
+  TransportDiagnostics,
+  TransportKind
+} from './types'
+export { SSETransport } from './SSETransport'
+export { WebSocketTransport } from './WebSocketTransport'
+export { MockTransport } from './MockTransport'
+export { ReplayTransport } from './ReplayTransport'
+
+// Transport selected by config, created once and reused across switches
+let liveTransport: MarketDataTransport | null = null
+// Transport the dashboard currently listens to (live, replay, ...)
+let activeTransport: MarketDataTransport | null = null
+const transportChangeSubscribers = new Set<(transport: MarketDataTransport) => void>()
+
+export function createTransport(kind: Exclude<TransportKind, 'replay'>): MarketDataTransport {
+  switch (kind) {
+    case 'websocket':
+      return new WebSocketTransport()
+    case 'mock':
+      return new MockTransport()
+    case 'sse':
+    default:
+      return new SSETransport()
+  }
+}
+
+/**
+ * Returns the live server transport selected by `APP_CONFIG.TRANSPORT`, creating it on first use.
+ */
+export function getLiveTransport(): MarketDataTransport {
+  if (!liveTransport) {
+    liveTransport = createTransport(API_CONFIG.TRANSPORT)
+  }
+  return liveTransport
+}
+
+/**
+ * Returns the transport currently feeding the dashboard, the live one unless another was activated.
+ */
+export function getMarketDataTransport(): MarketDataTransport {
+  return activeTransport ?? getLiveTransport()
+}
+
+/**
+ * Route the dashboard to a different transport (e.g. a replay), disconnecting the current one.
+ */
+export function activateTransport(transport: MarketDataTransport) {
+  const current = getMarketDataTransport()
+  if (current === transport) return
+
+  current.disconnect()
+  activeTransport = transport
+  transportChangeSubscribers.forEach(callback => {
+    try {
+      callback(transport)
+    } catch (error) {
+      console.error('Error in transport change subscriber:', error)
+    }
+  })
+}
+
+export function activateLiveTransport() {
+  activateTransport(getLiveTransport())
+}
+
+export function subscribeToTransportChange(callback: (transport: MarketDataTransport) => void) {
+  transportChangeSubscribers.add(callback)
+  return () => {
+    transportChangeSubscribers.delete(callback)
+  }
+}
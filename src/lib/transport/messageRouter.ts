@@ -0,0 +1,103 @@
+import type { useDashboardState } from '@/hooks/useDashboardState'
+import type { InboundMessage } from './schemas'
+
+/**
+ * Applies a validated inbound market data message to the dashboard state.
+ * Shared by every transport so parsing fixes only need to land once.
+ */
+export function routeMessage(message: InboundMessage, dashboardState: ReturnType<typeof useDashboardState>) {
+  console.log('📨 Received:', message.type)
+
+  switch (message.type) {
+    case 'connection':
+      console.log('🤝 Server connection established')
+      dashboardState.addLog('INFO', `Connected to server: ${message.data.message ?? 'no greeting'}`)
+      break
+
+    case 'heartbeat':
+      dashboardState.updateMetrics({
+        memory_usage_mb: message.data.memory_usage_mb,
+        queue_size: message.data.queue_size,
+        processing_delay_ms: message.data.processing_delay_ms,
+        server_status: message.data.server_status,
+        active_clients: message.data.active_clients,
+        current_scenario: message.data.current_scenario,
+        uptime_seconds: message.data.uptime_seconds,
+        total_events_received: message.data.total_messages_received ?? 0
+      })
+
+      dashboardState.updatePerformanceHistory(
+        message.data.memory_usage_mb,
+        message.data.queue_size,
+        message.data.processing_delay_ms
+      )
+      break
+
+    case 'orderbook_update':
+      console.log('📊 Orderbook update received')
+
+      dashboardState.updateOrderbook({
+        symbol: message.data.symbol,
+        bids: message.data.bids,
+        asks: message.data.asks,
+        mid_price: message.data.mid_price,
+        spread: message.data.spread,
+        sequence_id: message.data.sequence_id,
+        timestamp: message.data.timestamp ?? new Date().toISOString(),
+        data_age_ms: message.data.data_age_ms ?? 0,
+        is_stale: message.data.is_stale ?? false,
+        processing_delay_ms: message.data.processing_delay_ms ?? 0
+      })
+      break
+
+    case 'orderbook_delta':
+      // Per-level changes against the local book: [price, new size], size 0 removes the level
+      dashboardState.applyOrderbookDelta({
+        symbol: message.data.symbol,
+        bids: message.data.bids,
+        asks: message.data.asks,
+        sequence_id: message.data.sequence_id,
+        timestamp: message.data.timestamp ?? new Date().toISOString(),
+        checksum: message.data.checksum,
+        mid_price: message.data.mid_price,
+        spread: message.data.spread,
+        data_age_ms: message.data.data_age_ms ?? 0,
+        is_stale: message.data.is_stale ?? false,
+        processing_delay_ms: message.data.processing_delay_ms ?? 0
+      })
+      break
+
+    case 'incident_alert': {
+      console.log('🚨 Incident alert received')
+
+      let incidentDetails = ''
+      let logMessage = ''
+
+      if (message.data.type === 'stale_data') {
+        incidentDetails = `Data age: ${message.data.data_age_ms}ms, Processing delay: ${message.data.processing_delay_ms}ms, Queue: ${message.data.queue_size}`
+        logMessage = `STALE DATA ALERT: ${message.data.data_age_ms}ms lag on sequence ${message.data.sequence_id}`
+        dashboardState.addLog('CRITICAL', logMessage)
+      } else {
+        incidentDetails = typeof message.data.details === 'object'
+          ? JSON.stringify(message.data.details)
+          : message.data.details !== undefined ? String(message.data.details) : 'No details provided'
+        logMessage = `Incident: ${message.data.type} - ${incidentDetails}`
+        dashboardState.addLog('INCIDENT', logMessage)
+      }
+
+      dashboardState.addIncident({
+        timestamp: message.data.timestamp ?? new Date().toISOString(),
+        type: message.data.type,
+        details: incidentDetails,
+        scenario: message.data.scenario ?? 'unknown',
+        uptime: message.data.uptime ?? message.data.uptime_seconds ?? 0
+      })
+      break
+    }
+
+    case 'keepalive':
+      // Handle keepalive messages silently
+      console.log('🔄 Keepalive received')
+      break
+  }
+}
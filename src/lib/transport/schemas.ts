@@ -0,0 +1,214 @@
+/**
+ * Runtime schemas for every inbound message type. Messages are validated
+ * before they reach the router so server contract drift shows up as a
+ * protocol error instead of silently defaulting to zero.
+ */
+
+import type { PriceLevel } from '@/lib/orderbook'
+import type { MarketDataMessage } from './types'
+
+type FieldType = 'string' | 'number' | 'boolean' | 'levels' | 'any'
+
+interface FieldSpec {
+  type: FieldType
+  required: boolean
+}
+
+type Schema = Record<string, FieldSpec>
+
+const required = (type: FieldType): FieldSpec => ({ type, required: true })
+const optional = (type: FieldType): FieldSpec => ({ type, required: false })
+
+export interface ConnectionData {
+  message?: string
+}
+
+export interface HeartbeatData {
+  memory_usage_mb: number
+  queue_size: number
+  processing_delay_ms: number
+  server_status: string
+  active_clients: number
+  current_scenario: string
+  uptime_seconds: number
+  total_messages_received?: number
+}
+
+export interface OrderbookUpdateData {
+  symbol?: string
+  bids: PriceLevel[]
+  asks: PriceLevel[]
+  mid_price: number
+  spread: number
+  sequence_id: number
+  timestamp?: string
+  data_age_ms?: number
+  is_stale?: boolean
+  processing_delay_ms?: number
+}
+
+export interface OrderbookDeltaData {
+  symbol?: string
+  bids: PriceLevel[]
+  asks: PriceLevel[]
+  sequence_id: number
+  checksum?: number
+  mid_price?: number
+  spread?: number
+  timestamp?: string
+  data_age_ms?: number
+  is_stale?: boolean
+  processing_delay_ms?: number
+}
+
+export interface IncidentAlertData {
+  type: string
+  timestamp?: string
+  scenario?: string
+  uptime?: number
+  uptime_seconds?: number
+  details?: unknown
+  data_age_ms?: number
+  processing_delay_ms?: number
+  queue_size?: number
+  sequence_id?: number
+}
+
+export type InboundMessage =
+  | { type: 'connection'; data: ConnectionData; timestamp: string }
+  | { type: 'heartbeat'; data: HeartbeatData; timestamp: string }
+  | { type: 'orderbook_update'; data: OrderbookUpdateData; timestamp: string }
+  | { type: 'orderbook_delta'; data: OrderbookDeltaData; timestamp: string }
+  | { type: 'incident_alert'; data: IncidentAlertData; timestamp: string }
+  | { type: 'keepalive'; data: Record<string, never>; timestamp: string }
+
+const SCHEMAS: Record<InboundMessage['type'], Schema> = {
+  connection: {
+    message: optional('string')
+  },
+  heartbeat: {
+    memory_usage_mb: required('number'),
+    queue_size: required('number'),
+    processing_delay_ms: required('number'),
+    server_status: required('string'),
+    active_clients: required('number'),
+    current_scenario: required('string'),
+    uptime_seconds: required('number'),
+    total_messages_received: optional('number')
+  },
+  orderbook_update: {
+    symbol: optional('string'),
+    bids: required('levels'),
+    asks: required('levels'),
+    mid_price: required('number'),
+    spread: required('number'),
+    sequence_id: required('number'),
+    timestamp: optional('string'),
+    data_age_ms: optional('number'),
+    is_stale: optional('boolean'),
+    processing_delay_ms: optional('number')
+  },
+  orderbook_delta: {
+    symbol: optional('string'),
+    bids: required('levels'),
+    asks: required('levels'),
+    sequence_id: required('number'),
+    checksum: optional('number'),
+    mid_price: optional('number'),
+    spread: optional('number'),
+    timestamp: optional('string'),
+    data_age_ms: optional('number'),
+    is_stale: optional('boolean'),
+    processing_delay_ms: optional('number')
+  },
+  incident_alert: {
+    type: required('string'),
+    timestamp: optional('string'),
+    scenario: optional('string'),
+    uptime: optional('number'),
+    uptime_seconds: optional('number'),
+    details: optional('any'),
+    data_age_ms: optional('number'),
+    processing_delay_ms: optional('number'),
+    queue_size: optional('number'),
+    sequence_id: optional('number')
+  },
+  keepalive: {}
+}
+
+export interface ProtocolIssue {
+  field: string
+  expected: string
+  received: string
+}
+
+export type ValidationResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: false; type: string; issues: ProtocolIssue[] }
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isPriceLevel(value: unknown): value is PriceLevel {
+  return Array.isArray(value)
+    && value.length >= 2
+    && typeof value[0] === 'string'
+    && typeof value[1] === 'string'
+    && !Number.isNaN(parseFloat(value[0]))
+    && !Number.isNaN(parseFloat(value[1]))
+}
+
+function checkField(field: string, spec: FieldSpec, value: unknown): ProtocolIssue | null {
+  if (value === undefined || value === null) {
+    return spec.required ? { field, expected: spec.type, received: describe(value) } : null
+  }
+
+  switch (spec.type) {
+    case 'any':
+      return null
+    case 'levels': {
+      if (!Array.isArray(value)) return { field, expected: 'array of [price, size]', received: describe(value) }
+      const badIndex = value.findIndex(level => !isPriceLevel(level))
+      return badIndex === -1
+        ? null
+        : { field: `${field}[${badIndex}]`, expected: '[price, size] numeric strings', received: JSON.stringify(value[badIndex]) }
+    }
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? null
+        : { field, expected: 'number', received: describe(value) }
+    default:
+      return typeof value === spec.type ? null : { field, expected: spec.type, received: describe(value) }
+  }
+}
+
+export function validateMessage(message: MarketDataMessage): ValidationResult {
+  const type = typeof message?.type === 'string' ? message.type : describe(message?.type)
+  const schema = SCHEMAS[type as InboundMessage['type']]
+
+  if (!schema) {
+    return { ok: false, type, issues: [{ field: 'type', expected: Object.keys(SCHEMAS).join(' | '), received: type }] }
+  }
+
+  const data = message.data ?? {}
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, type, issues: [{ field: 'data', expected: 'object', received: describe(data) }] }
+  }
+
+  const issues = Object.entries(schema)
+    .map(([field, spec]) => checkField(field, spec, data[field]))
+    .filter((issue): issue is ProtocolIssue => issue !== null)
+
+  if (issues.length > 0) {
+    return { ok: false, type, issues }
+  }
+
+  return { ok: true, message: { ...message, data } as InboundMessage }
+}
+
+export function formatIssues(issues: ProtocolIssue[]): string {
+  return issues.map(issue => `${issue.field} (expected ${issue.expected}, got ${issue.received})`).join('; ')
+}
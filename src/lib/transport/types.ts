@@ -0,0 +1,71 @@
+/**
+ * Shared types for the market data transports (SSE / WebSocket / mock / replay)
+ */
+
+export type TransportKind = 'sse' | 'websocket' | 'mock' | 'replay'
+
+export interface MarketDataMessage {
+  type: string
+  data: Record<string, unknown>
+  timestamp: string
+}
+
+export type ConnectionListener = (connected: boolean) => void
+export type MessageListener = (message: MarketDataMessage) => void
+export type ErrorListener = (error: string) => void
+
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed'
+
+export interface ConnectionStateChange {
+  state: ConnectionState
+  at: number
+  detail?: string
+}
+
+/** Snapshot of a transport's connection bookkeeping for the diagnostics panel */
+export interface TransportDiagnostics {
+  kind: TransportKind
+  label: string
+  // Stream URL, null for in-browser transports
+  url: string | null
+  state: ConnectionState
+  // Oldest first
+  history: ConnectionStateChange[]
+  reconnect_attempts: number
+  max_reconnect_attempts: number
+  next_retry_at: number | null
+  last_error: string | null
+  last_error_at: number | null
+  connected_since: number | null
+  bytes_received: number
+  messages_received: number
+  last_message_at: number | null
+  last_keepalive_at: number | null
+}
+
+export interface MarketDataTransport {
+  readonly kind: TransportKind
+  /** Human readable name used in logs, e.g. "SSE" */
+  readonly label: string
+
+  subscribe(
+    onConnectionChange: ConnectionListener,
+    onMessage: MessageListener,
+    onError: ErrorListener
+  ): () => void
+
+  connect(): void
+  disconnect(): void
+  isConnected(): boolean
+
+  /** Symbol the stream is subscribed to */
+  getSymbol(): string
+  /** Resubscribe to another symbol's stream */
+  setSymbol(symbol: string): void
+
+  getDiagnostics(): TransportDiagnostics
+  /** Drop the current connection and any pending retry, and connect again now */
+  forceReconnect(): void
+  /** Start the reconnect attempt count over, e.g. after max attempts was reached */
+  resetReconnectAttempts(): void
+}